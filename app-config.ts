@@ -9,6 +9,7 @@ export const APP_CONFIG_DEFAULTS: AppConfig = {
   supportsVideoInput: true,
   supportsScreenShare: true,
   isPreConnectBufferEnabled: true,
+  isDiagnosticPollFallbackEnabled: false,
 
   logo: '/bosch_logo_embedded.svg',
   accent: '#002cf2',
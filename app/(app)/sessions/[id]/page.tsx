@@ -0,0 +1,11 @@
+import { SessionDetail } from '@/components/session-detail';
+
+interface SessionPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function SessionPage({ params }: SessionPageProps) {
+  const { id } = await params;
+
+  return <SessionDetail id={id} />;
+}
@@ -0,0 +1,5 @@
+import { SessionHistory } from '@/components/session-history';
+
+export default function SessionsPage() {
+  return <SessionHistory />;
+}
@@ -1,9 +1,54 @@
+import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
-import { AccessToken, type AccessTokenOptions, type VideoGrant } from 'livekit-server-sdk';
+import {
+  AccessToken,
+  type AccessTokenOptions,
+  AgentDispatchClient,
+  RoomServiceClient,
+  TokenVerifier,
+  type VideoGrant,
+} from 'livekit-server-sdk';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { ParticipantInfo_Kind, RoomConfiguration } from '@livekit/protocol';
+import { LANGUAGES, VOICE_BASES, type VoiceBase } from '@/hooks/useConnectionDetails';
+import { auditLog } from '@/lib/audit-log';
+import { createRateLimiter } from '@/lib/rate-limit';
+import { SESSION_COOKIE, verifySession } from '@/lib/session-cookie';
+import type { VehicleProfile } from '@/lib/types';
+import { isVehicleProfileEmpty, validateVehicleProfile } from '@/lib/vehicle-profile';
 
 const API_KEY = process.env.LIVEKIT_API_KEY!;
 const API_SECRET = process.env.LIVEKIT_API_SECRET!;
 const LIVEKIT_URL = process.env.LIVEKIT_URL!;
+const SESSION_SECRET = process.env.SESSION_SECRET;
+// Comma-separated `shopId:apiKey` pairs for server-to-server callers
+const SHOP_API_KEYS = parseShopApiKeys(process.env.SHOP_API_KEYS);
+
+// Reverse proxies in front of the app, each appending the address it saw to X-Forwarded-For.
+// Entries before theirs were sent by the client and cannot be trusted.
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+// A header the hosting platform sets to the client address, overriding what the client sent
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER?.toLowerCase();
+
+// Seconds or a duration such as '15m' or '2h'; clients refresh the token before it expires
+const TOKEN_TTL = process.env.LIVEKIT_TOKEN_TTL || '15m';
+
+// Each voice base is served by its own agent worker, registered under these names
+const AGENT_NAMES: Record<VoiceBase, string> = {
+  'Voice Assistant': process.env.VOICE_ASSISTANT_AGENT_NAME ?? 'voice-assistant',
+  'Live Assistant': process.env.LIVE_ASSISTANT_AGENT_NAME ?? 'live-assistant',
+};
+
+const limitByIp = createRateLimiter({ limit: 20, windowMs: 10 * 60_000 });
+const limitByCaller = createRateLimiter({ limit: 10, windowMs: 10 * 60_000 });
+// Anyone can get a fresh session cookie by loading a page, so the sessions an IP brings are
+// limited too; otherwise dropping the cookie would reset the per-caller limit
+const limitNewSessionsByIp = createRateLimiter({ limit: 5, windowMs: 60 * 60_000 });
+// Sessions already counted against their IP, with their expiry in epoch seconds
+const knownSessions = new Map<string, number>();
+// The caller each participant identity was issued to, and when its latest token expires in epoch
+// milliseconds; a token is only renewed for that caller
+const issuedIdentities = new Map<string, { callerId: string; expiresAt: number }>();
 
 export const revalidate = 0;
 
@@ -12,32 +57,163 @@ export type ConnectionDetails = {
   roomName: string;
   participantName: string;
   participantToken: string;
+  /** Epoch milliseconds at which `participantToken` expires. */
+  participantTokenExpiresAt: number;
 };
 
-export async function GET(req: Request) {
+export function GET(req: Request) {
+  return connectionDetails(req, { switchAgent: false });
+}
+
+/**
+ * Switches the participant presenting its current token to the agent serving `voiceBase`: the
+ * agents in its room are removed and that one is dispatched in their place. Otherwise as `GET`,
+ * returning a renewed token for the new preferences.
+ */
+export function POST(req: Request) {
+  return connectionDetails(req, { switchAgent: true });
+}
+
+async function connectionDetails(req: Request, { switchAgent }: { switchAgent: boolean }) {
   try {
     if (!LIVEKIT_URL) throw new Error('LIVEKIT_URL is not defined');
+    if (!SESSION_SECRET && SHOP_API_KEYS.size === 0) {
+      throw new Error('SESSION_SECRET or SHOP_API_KEYS must be defined');
+    }
+
+    const ip = clientIp(req);
+    const ipLimit = limitByIp(ip);
+    if (!ipLimit.allowed) {
+      auditLog('connection_token_rate_limited', { ip, scope: 'ip' });
+      return tooManyRequests(ipLimit.retryAfterSeconds);
+    }
+
+    const caller = await authenticate(req);
+    if (!caller) {
+      auditLog('connection_token_unauthorized', { ip });
+      return new NextResponse('Missing or invalid session or API key', { status: 401 });
+    }
+
+    if (caller.method === 'session' && !knownSessions.has(caller.id)) {
+      const sessionLimit = limitNewSessionsByIp(ip);
+      if (!sessionLimit.allowed) {
+        auditLog('connection_token_rate_limited', { ip, caller: caller.id, scope: 'new_session' });
+        return tooManyRequests(sessionLimit.retryAfterSeconds);
+      }
+      rememberSession(caller);
+    }
+
+    const callerLimit = limitByCaller(caller.id);
+    if (!callerLimit.allowed) {
+      auditLog('connection_token_rate_limited', { ip, caller: caller.id, scope: 'caller' });
+      return tooManyRequests(callerLimit.retryAfterSeconds);
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const language = searchParams.get('language') ?? 'en';
+    const voiceBase = searchParams.get('voiceBase') ?? 'Voice Assistant';
+    if (!isOneOf(LANGUAGES, language)) {
+      return new NextResponse(`language must be one of: ${LANGUAGES.join(', ')}`, { status: 400 });
+    }
+    if (!isOneOf(VOICE_BASES, voiceBase)) {
+      return new NextResponse(`voiceBase must be one of: ${VOICE_BASES.join(', ')}`, {
+        status: 400,
+      });
+    }
+
+    let vehicle: VehicleProfile | undefined;
+    const vehicleParam = searchParams.get('vehicle');
+    if (vehicleParam) {
+      try {
+        vehicle = validateVehicleProfile(JSON.parse(vehicleParam));
+      } catch (e) {
+        const message = e instanceof SyntaxError ? 'vehicle must be JSON' : (e as Error).message;
+        return new NextResponse(message, { status: 400 });
+      }
+    }
+
+    // A participant renews its token by presenting the current one, keeping its room and identity
+    const currentToken = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (switchAgent && !currentToken) {
+      return new NextResponse('Switching agents requires the current participant token', {
+        status: 401,
+      });
+    }
+    let participantIdentity = `voice_assistant_user_${randomUUID()}`;
+    let roomName = `voice_assistant_room_${randomUUID()}`;
+    if (currentToken) {
+      let grants;
+      try {
+        grants = await new TokenVerifier(API_KEY, API_SECRET).verify(currentToken);
+      } catch {
+        return new NextResponse('Invalid or expired participant token', { status: 401 });
+      }
+      if (!grants.sub || !grants.video?.room) {
+        return new NextResponse('Participant token has no room or identity', { status: 401 });
+      }
+      if (issuedIdentities.get(grants.sub)?.callerId !== caller.id) {
+        auditLog('connection_token_identity_mismatch', {
+          ip,
+          caller: caller.id,
+          identity: grants.sub,
+        });
+        return new NextResponse('Participant token was not issued to this caller', {
+          status: 403,
+        });
+      }
+      participantIdentity = grants.sub;
+      roomName = grants.video.room;
+    }
 
-    const language = new URL(req.url).searchParams.get('language') ?? 'en';
-    const voiceBase = new URL(req.url).searchParams.get('voiceBase') ?? 'Voice Assistant';
     const participantName = 'user';
-    const participantIdentity = `voice_assistant_user_${Math.floor(Math.random() * 10_000)}`;
-    const roomName = `voice_assistant_room_${Math.floor(Math.random() * 10_000)}`;
+    const agentName = AGENT_NAMES[voiceBase];
+    const metadata = JSON.stringify({
+      language,
+      voiceBase,
+      vehicle: vehicle && !isVehicleProfileEmpty(vehicle) ? vehicle : undefined,
+    });
 
     const participantToken = await createParticipantToken(
       {
         identity: participantIdentity,
         name: participantName,
-        metadata: JSON.stringify({ language, voiceBase }),
+        metadata,
       },
-      roomName
+      roomName,
+      new RoomConfiguration({ agents: [{ agentName, metadata }] })
     ); // ← no trailing comma here
+    const participantTokenExpiresAt = tokenExpiresAt(participantToken);
+    rememberIdentity(participantIdentity, caller.id, participantTokenExpiresAt);
+
+    if (switchAgent) {
+      await dispatchAgent(roomName, agentName, metadata);
+      auditLog('agent_switched', {
+        ip,
+        caller: caller.id,
+        identity: participantIdentity,
+        roomName,
+        agentName,
+      });
+    }
+
+    auditLog(currentToken ? 'connection_token_refreshed' : 'connection_token_issued', {
+      ip,
+      caller: caller.id,
+      authMethod: caller.method,
+      identity: participantIdentity,
+      roomName,
+      agentName,
+      language,
+      voiceBase,
+      ttl: TOKEN_TTL,
+    });
 
     return NextResponse.json(
       {
         serverUrl: LIVEKIT_URL,
         roomName,
         participantToken,
+        participantTokenExpiresAt,
         participantName,
       } satisfies ConnectionDetails,
       { headers: { 'Cache-Control': 'no-store' } } // ← no trailing comma here
@@ -48,15 +224,128 @@ export async function GET(req: Request) {
   }
 }
 
-function createParticipantToken(userInfo: AccessTokenOptions, roomName: string) {
-  const at = new AccessToken(API_KEY, API_SECRET, { ...userInfo, ttl: '15m' });
+function createParticipantToken(
+  userInfo: AccessTokenOptions,
+  roomName: string,
+  roomConfig: RoomConfiguration
+) {
+  const at = new AccessToken(API_KEY, API_SECRET, { ...userInfo, ttl: TOKEN_TTL });
   const grant: VideoGrant = {
     room: roomName,
     roomJoin: true,
     canPublish: true,
     canPublishData: true,
     canSubscribe: true,
+    // Lets the client update language and voice base mid-session
+    canUpdateOwnMetadata: true,
   };
   at.addGrant(grant);
+  // Dispatches the named agent when the room is created, instead of relying on automatic dispatch
+  at.roomConfig = roomConfig;
   return at.toJwt();
 }
+
+/** Replace the agents in `roomName` with a new dispatch of `agentName`. */
+async function dispatchAgent(roomName: string, agentName: string, metadata: string) {
+  const dispatchClient = new AgentDispatchClient(LIVEKIT_URL, API_KEY, API_SECRET);
+  const roomClient = new RoomServiceClient(LIVEKIT_URL, API_KEY, API_SECRET);
+  // The current agent leaves first, so the two never talk over each other
+  for (const dispatch of await dispatchClient.listDispatch(roomName)) {
+    await dispatchClient.deleteDispatch(dispatch.id, roomName);
+  }
+  for (const participant of await roomClient.listParticipants(roomName)) {
+    if (participant.kind === ParticipantInfo_Kind.AGENT) {
+      await roomClient.removeParticipant(roomName, participant.identity);
+    }
+  }
+  await dispatchClient.createDispatch(roomName, agentName, { metadata });
+}
+
+function tokenExpiresAt(token: string) {
+  const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+  return (payload as { exp: number }).exp * 1000;
+}
+
+interface Caller {
+  /** Stable key for per-caller rate limiting and the audit log. */
+  id: string;
+  method: 'session' | 'api_key';
+  /** Epoch seconds at which a session cookie expires. */
+  expiresAt?: number;
+}
+
+/** Browsers present the signed session cookie; shop integrations send an `x-api-key` header. */
+async function authenticate(req: Request): Promise<Caller | null> {
+  const apiKey = req.headers.get('x-api-key');
+  if (apiKey) {
+    for (const [shopId, key] of SHOP_API_KEYS) {
+      if (safeEqual(apiKey, key)) return { id: `shop:${shopId}`, method: 'api_key' };
+    }
+    return null;
+  }
+
+  if (!SESSION_SECRET) return null;
+  const session = await verifySession((await cookies()).get(SESSION_COOKIE)?.value, SESSION_SECRET);
+  return session
+    ? { id: `session:${session.sub}`, method: 'session', expiresAt: session.exp }
+    : null;
+}
+
+function rememberSession({ id, expiresAt = 0 }: Caller) {
+  // Drop expired sessions as we go so the map does not grow without bound
+  if (knownSessions.size > 10_000) {
+    const now = Date.now() / 1000;
+    for (const [key, exp] of knownSessions) if (exp <= now) knownSessions.delete(key);
+  }
+  knownSessions.set(id, expiresAt);
+}
+
+function rememberIdentity(identity: string, callerId: string, expiresAt: number) {
+  // Drop identities whose tokens have expired so the map does not grow without bound
+  if (issuedIdentities.size > 10_000) {
+    const now = Date.now();
+    for (const [key, issued] of issuedIdentities) {
+      if (issued.expiresAt <= now) issuedIdentities.delete(key);
+    }
+  }
+  issuedIdentities.set(identity, { callerId, expiresAt });
+}
+
+function parseShopApiKeys(value: string | undefined) {
+  const keys = new Map<string, string>();
+  for (const entry of value?.split(',') ?? []) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+    const key = entry.slice(separator + 1).trim();
+    if (key) keys.set(entry.slice(0, separator).trim(), key);
+  }
+  return keys;
+}
+
+function safeEqual(a: string, b: string) {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * The client address as reported by infrastructure the client cannot impersonate: the platform's
+ * header if configured, otherwise the entry the outermost trusted proxy appended.
+ */
+function clientIp(req: Request) {
+  if (CLIENT_IP_HEADER) return req.headers.get(CLIENT_IP_HEADER)?.trim() || 'unknown';
+  if (TRUSTED_PROXY_HOPS <= 0) return 'unknown';
+  const forwardedFor = req.headers.get('x-forwarded-for')?.split(',') ?? [];
+  return forwardedFor.at(-TRUSTED_PROXY_HOPS)?.trim() || 'unknown';
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: string): value is T {
+  return (values as readonly string[]).includes(value);
+}
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return new NextResponse('Too many requests', {
+    status: 429,
+    headers: { 'Retry-After': String(retryAfterSeconds) },
+  });
+}
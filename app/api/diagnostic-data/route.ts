@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { TokenVerifier } from 'livekit-server-sdk';
+
+const API_KEY = process.env.LIVEKIT_API_KEY!;
+const API_SECRET = process.env.LIVEKIT_API_SECRET!;
+const DIAGNOSTIC_API_BASE_URL = process.env.DIAGNOSTIC_API_BASE_URL ?? 'http://localhost:8001';
+
+export const revalidate = 0;
+
+export async function GET(req: Request) {
+  try {
+    const searchParams = new URL(req.url).searchParams;
+    const roomName = searchParams.get('roomName');
+    const identity = searchParams.get('identity');
+    if (!roomName || !identity) {
+      return new NextResponse('roomName and identity are required', { status: 400 });
+    }
+
+    // The caller proves who they are with the participant token issued by /api/connection-details
+    const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!token) {
+      return new NextResponse('Missing participant token', { status: 401 });
+    }
+
+    let grants;
+    try {
+      grants = await new TokenVerifier(API_KEY, API_SECRET).verify(token);
+    } catch {
+      return new NextResponse('Invalid participant token', { status: 401 });
+    }
+
+    if (grants.sub !== identity || grants.video?.room !== roomName) {
+      return new NextResponse('Token does not match the requested room or identity', {
+        status: 403,
+      });
+    }
+
+    const url = new URL('/api/diagnostic-data', DIAGNOSTIC_API_BASE_URL);
+    url.searchParams.set('room_name', roomName);
+    url.searchParams.set('identity', identity);
+
+    const response = await fetch(url, { cache: 'no-store' });
+    if (!response.ok) {
+      return new NextResponse(`Diagnostic backend responded with ${response.status}`, {
+        status: 502,
+      });
+    }
+
+    return NextResponse.json(await response.json(), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (e: unknown) {
+    const message = e instanceof Error ? e.message : 'Unknown error';
+    return new NextResponse(message, { status: 500 });
+  }
+}
@@ -3,19 +3,20 @@
 import * as React from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Room } from 'livekit-client';
 import { RoomContext } from '@livekit/components-react';
 import { toastAlert } from '@/components/alert-toast';
 import useConnectionDetails from '@/hooks/useConnectionDetails';
+import useRoom from '@/hooks/useRoom';
 import { cn } from '@/lib/utils';
 
 export default function ComponentsLayout({ children }: { children: React.ReactNode }) {
   const { fetchConnectionDetails } = useConnectionDetails();
 
   const pathname = usePathname();
-  const room = React.useMemo(() => new Room(), []);
+  const room = useRoom();
 
   React.useEffect(() => {
+    if (!room) return;
     if (room.state === 'disconnected') {
       Promise.all([
         room.localParticipant.setMicrophoneEnabled(true, undefined, {
@@ -68,9 +69,11 @@ export default function ComponentsLayout({ children }: { children: React.ReactNo
         </Link>
       </div>
 
-      <RoomContext.Provider value={room}>
-        <main className="flex w-full flex-1 flex-col items-stretch gap-8">{children}</main>
-      </RoomContext.Provider>
+      {room && (
+        <RoomContext.Provider value={room}>
+          <main className="flex w-full flex-1 flex-col items-stretch gap-8">{children}</main>
+        </RoomContext.Provider>
+      )}
     </div>
   );
 }
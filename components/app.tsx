@@ -1,15 +1,22 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-import { Room, RoomEvent } from 'livekit-client';
+import { useEffect, useRef, useState } from 'react';
+import { DisconnectReason, type Room, RoomEvent } from 'livekit-client';
 import { motion } from 'motion/react';
 import { Toaster } from 'sonner';
 import { RoomAudioRenderer, RoomContext, StartAudio } from '@livekit/components-react';
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
 import { toastAlert } from '@/components/alert-toast';
+import { I18nProvider } from '@/components/i18n-provider';
 import { SessionView } from '@/components/session-view';
 import { Welcome } from '@/components/welcome';
 import useConnectionDetails from '@/hooks/useConnectionDetails';
-import type { AppConfig } from '@/lib/types';
+import useRoom from '@/hooks/useRoom';
+import useSessionPreferences, { type SessionPreferences } from '@/hooks/useSessionPreferences';
+import useTokenRefresh from '@/hooks/useTokenRefresh';
+import { getMessages } from '@/lib/i18n';
+import type { AppConfig, VehicleProfile } from '@/lib/types';
+import { isSessionEnd } from '@/lib/utils';
 
 // Motion-wrap Welcome
 const MotionWelcome = motion.create(Welcome);
@@ -19,43 +26,85 @@ interface AppProps {
 }
 
 export function App({ appConfig }: AppProps) {
-  const room = useMemo(() => new Room(), []);
+  const room = useRoom();
+  // Only while the mock room loads
+  if (!room) return null;
+  return <AppSession appConfig={appConfig} room={room} />;
+}
+
+function AppSession({ appConfig, room }: AppProps & { room: Room }) {
   const [sessionStarted, setSessionStarted] = useState(false);
+  const [connectionDetails, setConnectionDetails] = useState<ConnectionDetails | null>(null);
+  const [connectionLost, setConnectionLost] = useState(false);
+  const [isRejoining, setIsRejoining] = useState(false);
 
-  const [language, setLanguage] = useState<'en' | 'kn' | 'hi' | 'ta' | null>(null);
-  const [voiceBase, setVoiceBase] = useState<'Voice Assistant' | 'Live Assistant'>(
-    'Voice Assistant'
-  );
+  const { fetchConnectionDetails } = useConnectionDetails();
 
-  const handleLanguageChange = (lang: 'en' | 'kn' | 'hi' | 'ta') => {
-    setLanguage(lang);
-    if (room.state === 'connected') {
-      try {
-        room.localParticipant.setMetadata(JSON.stringify({ language: lang, voiceBase }));
-      } catch (e) {
-        console.warn('setMetadata failed:', e);
-      }
-    }
-  };
+  const {
+    language,
+    voiceBase,
+    setLanguage,
+    setVoiceBase,
+    vehicle,
+    updateVehicle,
+    pendingPreferences,
+    switchPreferences,
+  } = useSessionPreferences(room, {
+    switchAgent: async ({ language, voiceBase }, vehicle) => {
+      if (!connectionDetails) throw new Error('Not connected to a session');
+      const switched = await fetchConnectionDetails(
+        language,
+        voiceBase,
+        vehicle,
+        connectionDetails.participantToken,
+        { switchAgent: true }
+      );
+      setConnectionDetails(switched);
+    },
+  });
+  const t = getMessages(language);
 
-  const handleVoiceBaseChange = (base: 'Voice Assistant' | 'Live Assistant') => {
-    setVoiceBase(base);
-    if (room.state === 'connected') {
-      try {
-        room.localParticipant.setMetadata(JSON.stringify({ language, voiceBase: base }));
-      } catch (e) {
-        console.warn('setMetadata (voiceBase) failed:', e);
-      }
+  // Read when connecting, so switching preferences mid-session does not reconnect the room
+  const connectPreferences = useRef({ language, voiceBase, vehicle });
+  connectPreferences.current = { language, voiceBase, vehicle };
+
+  const handleSessionPreferencesChange = async (next: SessionPreferences) => {
+    try {
+      await switchPreferences(next);
+    } catch (error) {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      toastAlert({
+        title: t.toast.preferencesSwitchError,
+        description: `${name}: ${message}`,
+      });
     }
   };
 
-  const { fetchConnectionDetails } = useConnectionDetails();
+  useTokenRefresh({
+    connectionDetails,
+    language,
+    voiceBase,
+    vehicle,
+    onRefresh: setConnectionDetails,
+    onRefreshError: (error) => {
+      console.error('Failed to refresh participant token:', error);
+      toastAlert({ title: t.toast.tokenRefreshError, description: t.toast.tokenRefreshHint });
+    },
+  });
 
   useEffect(() => {
-    const onDisconnected = () => setSessionStarted(false);
+    const onDisconnected = (reason?: DisconnectReason) => {
+      // A dropped connection keeps the session so the user can rejoin the same room
+      if (!isSessionEnd(reason)) {
+        setConnectionLost(true);
+        return;
+      }
+      setSessionStarted(false);
+      setConnectionDetails(null);
+    };
     const onMediaDevicesError = (error: Error) => {
       toastAlert({
-        title: 'Encountered an error with your media devices',
+        title: t.toast.mediaDevicesError,
         description: `${error.name}: ${error.message}`,
       });
     };
@@ -65,22 +114,24 @@ export function App({ appConfig }: AppProps) {
       room.off(RoomEvent.Disconnected, onDisconnected);
       room.off(RoomEvent.MediaDevicesError, onMediaDevicesError);
     };
-  }, [room]);
+  }, [room, t]);
 
   useEffect(() => {
     let aborted = false;
+    const { language, voiceBase, vehicle } = connectPreferences.current;
     if (sessionStarted && room.state === 'disconnected' && language) {
       Promise.all([
         room.localParticipant.setMicrophoneEnabled(true, undefined, {
           preConnectBuffer: appConfig.isPreConnectBufferEnabled,
         }),
-        fetchConnectionDetails(language, voiceBase).then(async (connectionDetails) => {
+        fetchConnectionDetails(language, voiceBase, vehicle).then(async (connectionDetails) => {
+          setConnectionDetails(connectionDetails);
           await room.connect(connectionDetails.serverUrl, connectionDetails.participantToken);
         }),
       ]).catch((error) => {
         if (aborted) return;
         toastAlert({
-          title: 'There was an error connecting to the agent',
+          title: getMessages(language).toast.connectionError,
           description: `${error.name}: ${error.message}`,
         });
       });
@@ -89,28 +140,55 @@ export function App({ appConfig }: AppProps) {
       aborted = true;
       room.disconnect();
     };
-  }, [
-    room,
-    sessionStarted,
-    fetchConnectionDetails,
-    appConfig.isPreConnectBufferEnabled,
-    language,
-    voiceBase,
-  ]);
+  }, [room, sessionStarted, fetchConnectionDetails, appConfig.isPreConnectBufferEnabled]);
+
+  const handleVehicleChange = async (next: VehicleProfile) => {
+    try {
+      await updateVehicle(next);
+    } catch (error) {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      toastAlert({ title: t.vehicle.updateError, description: `${name}: ${message}` });
+      throw error;
+    }
+  };
+
+  const handleRejoin = async () => {
+    if (!connectionDetails) return;
+    setIsRejoining(true);
+    try {
+      // The token is kept fresh while disconnected, so it is still valid for the same room
+      await room.connect(connectionDetails.serverUrl, connectionDetails.participantToken);
+      await room.localParticipant.setMicrophoneEnabled(true);
+      setConnectionLost(false);
+    } catch (error) {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      toastAlert({ title: t.toast.connectionError, description: `${name}: ${message}` });
+    } finally {
+      setIsRejoining(false);
+    }
+  };
+
+  const handleLeave = () => {
+    setConnectionLost(false);
+    setSessionStarted(false);
+    setConnectionDetails(null);
+  };
 
   const { startButtonText } = appConfig;
 
   return (
-    <>
+    <I18nProvider language={language ?? 'en'}>
       <MotionWelcome
         key="welcome"
         startButtonText={startButtonText}
         onStartCall={() => setSessionStarted(true)}
         disabled={sessionStarted}
         language={language}
-        onLanguageChange={handleLanguageChange}
+        onLanguageChange={setLanguage}
         voiceBase={voiceBase}
-        onVoiceBaseChange={handleVoiceBaseChange}
+        onVoiceBaseChange={setVoiceBase}
+        vehicle={vehicle}
+        onVehicleChange={updateVehicle}
         initial={{ opacity: 0 }}
         animate={{ opacity: sessionStarted ? 0 : 1 }}
         transition={{
@@ -140,12 +218,22 @@ export function App({ appConfig }: AppProps) {
               disabled={!sessionStarted}
               sessionStarted={sessionStarted}
               language={language}
+              voiceBase={voiceBase}
+              pendingPreferences={pendingPreferences}
+              onPreferencesChange={handleSessionPreferencesChange}
+              vehicle={vehicle}
+              onVehicleChange={handleVehicleChange}
+              participantToken={connectionDetails?.participantToken}
+              connectionLost={connectionLost}
+              isRejoining={isRejoining}
+              onRejoin={handleRejoin}
+              onLeave={handleLeave}
             />
           )}
         </motion.div>
       </RoomContext.Provider>
 
       <Toaster />
-    </>
+    </I18nProvider>
   );
 }
@@ -0,0 +1,81 @@
+'use client';
+
+import { createContext, useContext, useId } from 'react';
+import { cva } from 'class-variance-authority';
+import { useTranslation } from '@/components/i18n-provider';
+import { dtcDescription, parseDtc } from '@/lib/dtc';
+import { cn } from '@/lib/utils';
+
+// Chips outside a session (e.g. a printed report) have nobody to ask, so they are not clickable
+const ExplainDtcContext = createContext<((code: string) => void) | null>(null);
+
+interface DtcExplainProviderProps {
+  onExplain: (code: string) => void;
+  children: React.ReactNode;
+}
+
+export function DtcExplainProvider({ onExplain, children }: DtcExplainProviderProps) {
+  return <ExplainDtcContext.Provider value={onExplain}>{children}</ExplainDtcContext.Provider>;
+}
+
+const dtcChipVariants = cva(
+  'inline-flex items-center rounded-md border px-1.5 font-mono text-[0.85em] font-semibold leading-normal',
+  {
+    variants: {
+      system: {
+        powertrain:
+          'border-orange-300 bg-orange-50 text-orange-800 dark:border-orange-800 dark:bg-orange-950 dark:text-orange-300',
+        body: 'border-sky-300 bg-sky-50 text-sky-800 dark:border-sky-800 dark:bg-sky-950 dark:text-sky-300',
+        chassis:
+          'border-emerald-300 bg-emerald-50 text-emerald-800 dark:border-emerald-800 dark:bg-emerald-950 dark:text-emerald-300',
+        network:
+          'border-violet-300 bg-violet-50 text-violet-800 dark:border-violet-800 dark:bg-violet-950 dark:text-violet-300',
+      },
+    },
+  }
+);
+
+interface DtcChipProps {
+  code: string;
+}
+
+export function DtcChip({ code }: DtcChipProps) {
+  const onExplain = useContext(ExplainDtcContext);
+  const { t } = useTranslation();
+  const descriptionId = useId();
+  const dtc = parseDtc(code);
+  if (!dtc) return code;
+
+  const chip = dtcChipVariants({ system: dtc.system });
+  const card = (
+    <span
+      id={descriptionId}
+      role="tooltip"
+      className="bg-popover text-popover-foreground pointer-events-none invisible absolute top-full left-0 z-50 mt-1 w-64 rounded-md border p-2 text-left font-sans text-xs font-normal whitespace-normal opacity-0 shadow-md transition-opacity group-hover/dtc:visible group-hover/dtc:opacity-100 group-focus-visible/dtc:visible group-focus-visible/dtc:opacity-100"
+    >
+      <span className="block font-semibold">
+        {dtc.code} · {t.chat.dtcSystems[dtc.system]} ·{' '}
+        {t.chat.dtcCategories[dtc.generic ? 'generic' : 'manufacturer']}
+      </span>
+      <span className="block">{dtcDescription(dtc.code, t.dtc) ?? t.chat.dtcUnlisted}</span>
+      {onExplain && <span className="text-muted-foreground mt-1 block">{t.chat.dtcAsk}</span>}
+    </span>
+  );
+
+  return onExplain ? (
+    <button
+      type="button"
+      aria-describedby={descriptionId}
+      onClick={() => onExplain(dtc.code)}
+      className={cn(chip, 'group/dtc relative cursor-pointer hover:brightness-95')}
+    >
+      {dtc.code}
+      {card}
+    </button>
+  ) : (
+    <span tabIndex={0} aria-describedby={descriptionId} className={cn(chip, 'group/dtc relative')}>
+      {dtc.code}
+      {card}
+    </span>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { createContext, useContext, useMemo } from 'react';
+import type { Language } from '@/hooks/useConnectionDetails';
+import { LOCALES, type Messages, getMessages } from '@/lib/i18n';
+
+interface I18nContextValue {
+  language: Language;
+  locale: string;
+  t: Messages;
+}
+
+// Components rendered outside a provider (e.g. the /components showcase) fall back to English
+const I18nContext = createContext<I18nContextValue>({
+  language: 'en',
+  locale: LOCALES.en,
+  t: getMessages('en'),
+});
+
+interface I18nProviderProps {
+  language: Language;
+  children: React.ReactNode;
+}
+
+export function I18nProvider({ language, children }: I18nProviderProps) {
+  const value = useMemo(
+    () => ({ language, locale: LOCALES[language], t: getMessages(language) }),
+    [language]
+  );
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useTranslation() {
+  return useContext(I18nContext);
+}
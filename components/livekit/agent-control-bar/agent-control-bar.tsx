@@ -3,12 +3,22 @@
 import * as React from 'react';
 import { useCallback } from 'react';
 import { Track } from 'livekit-client';
-import { FileText } from 'lucide-react';
-import { BarVisualizer, useRemoteParticipants } from '@livekit/components-react';
+import { Aperture, FileText, Hand, ListChecks, Square } from 'lucide-react';
+import { BarVisualizer, useRemoteParticipants, useVoiceAssistant } from '@livekit/components-react';
 import { ChatTextIcon, PhoneDisconnectIcon } from '@phosphor-icons/react/dist/ssr';
+import { toastAlert } from '@/components/alert-toast';
+import { useTranslation } from '@/components/i18n-provider';
 import { ChatInput } from '@/components/livekit/chat/chat-input';
+import { useLocalTrackRef } from '@/components/livekit/media-tiles';
+import { SessionPreferencesSelect } from '@/components/livekit/session-preferences-select';
+import { SnapshotDialog } from '@/components/livekit/snapshot-dialog';
+import { TranscriptExportMenu } from '@/components/livekit/transcript-export-menu';
 import { Button } from '@/components/ui/button';
 import { Toggle } from '@/components/ui/toggle';
+import useClientRpc from '@/hooks/useClientRpc';
+import type { SessionPreferences } from '@/hooks/useSessionPreferences';
+import { captureFrame } from '@/lib/snapshot';
+import type { TranscriptExportFormat } from '@/lib/transcript-export';
 import { AppConfig } from '@/lib/types';
 import { cn } from '@/lib/utils';
 import { DeviceSelect } from '../device-select';
@@ -21,7 +31,21 @@ export interface AgentControlBarProps
   capabilities: Pick<AppConfig, 'supportsChatInput' | 'supportsVideoInput' | 'supportsScreenShare'>;
   onChatOpenChange?: (open: boolean) => void;
   onSendMessage?: (message: string) => Promise<void>;
+  /** Enables attaching files in the chat input; the typed message becomes their caption. */
+  onSendAttachments?: (files: File[], caption: string) => Promise<void>;
+  /** Enables the snapshot button, which sends a still from the camera with a caption. */
+  onSendSnapshot?: (image: File, caption: string) => Promise<void>;
+  /** Opens or closes the report from outside the control bar, e.g. when the agent asks. */
+  textOutputOpen?: boolean;
   onTextOutputToggle?: (open: boolean) => void;
+  onExportTranscript?: (format: TranscriptExportFormat) => void;
+  sessionPreferences?: SessionPreferences;
+  pendingPreferences?: SessionPreferences | null;
+  onPreferencesChange?: (preferences: SessionPreferences) => void;
+  /** Checked-off repair steps of the latest report, shown once the report has any steps. */
+  checklistProgress?: { completed: number; total: number };
+  /** Enables the stop button shown while the agent speaks; resolves once the agent has stopped. */
+  onInterruptAgent?: () => Promise<void>;
   onDisconnect?: () => void;
   onDeviceError?: (error: { source: Track.Source; error: Error }) => void;
 }
@@ -35,13 +59,24 @@ export function AgentControlBar({
   capabilities,
   className,
   onSendMessage,
+  onSendAttachments,
+  onSendSnapshot,
   onChatOpenChange,
+  textOutputOpen: requestedTextOutputOpen,
   onTextOutputToggle,
+  onExportTranscript,
+  sessionPreferences,
+  pendingPreferences = null,
+  onPreferencesChange,
+  checklistProgress,
+  onInterruptAgent,
   onDisconnect,
   onDeviceError,
   ...props
 }: AgentControlBarProps) {
   const participants = useRemoteParticipants();
+  const { state: agentState } = useVoiceAssistant();
+  const { t } = useTranslation();
   const [chatOpen, setChatOpen] = React.useState(false);
   const [textOutputOpen, setTextOutputOpen] = React.useState(false);
   const [isSendingMessage, setIsSendingMessage] = React.useState(false);
@@ -50,6 +85,11 @@ export function AgentControlBar({
   const isInputDisabled = !chatOpen || !isAgentAvailable || isSendingMessage;
 
   const [isDisconnecting, setIsDisconnecting] = React.useState(false);
+  const [isInterrupting, setIsInterrupting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (requestedTextOutputOpen !== undefined) setTextOutputOpen(requestedTextOutputOpen);
+  }, [requestedTextOutputOpen]);
 
   // Handle text output toggle callback
   React.useEffect(() => {
@@ -62,6 +102,7 @@ export function AgentControlBar({
     cameraToggle,
     microphoneToggle,
     screenShareToggle,
+    pushToTalk,
     handleAudioDeviceChange,
     handleVideoDeviceChange,
     handleDisconnect,
@@ -70,6 +111,54 @@ export function AgentControlBar({
     saveUserChoices,
   });
 
+  const cameraTrackRef = useLocalTrackRef(Track.Source.Camera);
+  const [snapshot, setSnapshot] = React.useState<Blob | null>(null);
+
+  const handleTakeSnapshot = async () => {
+    const track = cameraTrackRef?.publication.track?.mediaStreamTrack;
+    if (!track) return;
+    try {
+      setSnapshot(await captureFrame(track));
+    } catch (error) {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      toastAlert({ title: t.snapshot.captureError, description: `${name}: ${message}` });
+    }
+  };
+
+  const handleSendSnapshot = async (image: File, caption: string) => {
+    await onSendSnapshot?.(image, caption);
+    setSnapshot(null);
+  };
+
+  useClientRpc({
+    request_camera: ({ reason }) => {
+      if (!capabilities.supportsVideoInput || !visibleControls.camera) {
+        return { status: 'unavailable' };
+      }
+      if (cameraToggle.enabled) return { status: 'already_on' };
+      // The camera is only turned on by the technician, never by the agent directly
+      toastAlert({
+        title: t.controlBar.cameraRequested,
+        description: (
+          <span className="flex flex-wrap items-center gap-2">
+            {reason}
+            <button
+              onClick={() =>
+                cameraToggle
+                  .toggle(true)
+                  .catch((error) => onDeviceError?.({ source: Track.Source.Camera, error }))
+              }
+              className="underline"
+            >
+              {t.controlBar.turnOnCamera}
+            </button>
+          </span>
+        ),
+      });
+      return { status: 'prompted' };
+    },
+  });
+
   const handleSendMessage = async (message: string) => {
     setIsSendingMessage(true);
     try {
@@ -79,6 +168,15 @@ export function AgentControlBar({
     }
   };
 
+  const handleInterruptAgent = async () => {
+    setIsInterrupting(true);
+    try {
+      await onInterruptAgent?.();
+    } finally {
+      setIsInterrupting(false);
+    }
+  };
+
   const onLeave = async () => {
     setIsDisconnecting(true);
     await handleDisconnect();
@@ -105,7 +203,7 @@ export function AgentControlBar({
 
   return (
     <div
-      aria-label="Voice assistant controls"
+      aria-label={t.controlBar.controls}
       className={cn(
         'bg-background border-bg2 dark:border-separator1 flex flex-col rounded-[31px] border p-3 drop-shadow-md/3',
         className
@@ -121,12 +219,51 @@ export function AgentControlBar({
           )}
         >
           <div className="flex h-8 w-full">
-            <ChatInput onSend={handleSendMessage} disabled={isInputDisabled} className="w-full" />
+            <ChatInput
+              onSend={handleSendMessage}
+              onSendAttachments={
+                onSendAttachments &&
+                ((files, caption) => {
+                  // Uploads show their own progress in the chat; failures are reported by the caller
+                  onSendAttachments(files, caption).catch(() => {});
+                })
+              }
+              disabled={isInputDisabled}
+              className="w-full"
+            />
           </div>
           <hr className="border-bg2 my-3" />
         </div>
       )}
 
+      {visibleControls.microphone && pushToTalk.enabled && (
+        <Button
+          variant={pushToTalk.isTalking ? 'primary' : 'secondary'}
+          aria-pressed={pushToTalk.isTalking}
+          disabled={!isAgentAvailable}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            pushToTalk.startTalking();
+          }}
+          onPointerUp={pushToTalk.stopTalking}
+          onPointerCancel={pushToTalk.stopTalking}
+          onContextMenu={(e) => e.preventDefault()}
+          className="mb-3 h-14 w-full touch-none rounded-[20px] font-mono text-base select-none"
+        >
+          <Hand className="size-5" />
+          {pushToTalk.isTalking ? (
+            t.controlBar.talking
+          ) : (
+            <>
+              {t.controlBar.holdToTalk}
+              <span className="text-muted-foreground hidden text-xs md:inline">
+                {t.controlBar.holdToTalkHint}
+              </span>
+            </>
+          )}
+        </Button>
+      )}
+
       <div className="flex flex-row justify-between gap-1">
         <div className="flex gap-1">
           {visibleControls.microphone && (
@@ -135,7 +272,8 @@ export function AgentControlBar({
                 variant="primary"
                 source={Track.Source.Microphone}
                 pressed={microphoneToggle.enabled}
-                disabled={microphoneToggle.pending}
+                // In push-to-talk the microphone is only opened by holding the talk button
+                disabled={microphoneToggle.pending || pushToTalk.enabled}
                 onPressedChange={microphoneToggle.toggle}
                 className="peer/track group/track relative w-auto pr-3 pl-3 md:rounded-r-none md:border-r-0 md:pr-2"
               >
@@ -171,6 +309,19 @@ export function AgentControlBar({
             </div>
           )}
 
+          {visibleControls.microphone && (
+            <Toggle
+              variant="secondary"
+              aria-label={t.controlBar.pushToTalk}
+              title={t.controlBar.pushToTalk}
+              pressed={pushToTalk.enabled}
+              onPressedChange={pushToTalk.setEnabled}
+              className="aspect-square h-full"
+            >
+              <Hand className="h-5 w-5" />
+            </Toggle>
+          )}
+
           {capabilities.supportsVideoInput && visibleControls.camera && (
             <div className="flex items-center gap-0">
               <TrackToggle
@@ -196,6 +347,19 @@ export function AgentControlBar({
                   'rounded-l-none',
                 ])}
               />
+              {onSendSnapshot && (
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  aria-label={t.snapshot.take}
+                  title={t.snapshot.take}
+                  onClick={handleTakeSnapshot}
+                  disabled={!cameraToggle.enabled || !isAgentAvailable}
+                  className="ml-1 aspect-square h-full w-auto"
+                >
+                  <Aperture />
+                </Button>
+              )}
             </div>
           )}
 
@@ -215,7 +379,7 @@ export function AgentControlBar({
           {visibleControls.chat && (
             <Toggle
               variant="secondary"
-              aria-label="Toggle chat"
+              aria-label={t.controlBar.toggleChat}
               pressed={chatOpen}
               onPressedChange={setChatOpen}
               disabled={!isAgentAvailable}
@@ -228,7 +392,7 @@ export function AgentControlBar({
           {/* Text Output Panel Toggle */}
           <Toggle
             variant="secondary"
-            aria-label="Toggle diagnostic report"
+            aria-label={t.controlBar.toggleReport}
             pressed={textOutputOpen}
             onPressedChange={setTextOutputOpen}
             disabled={!isAgentAvailable}
@@ -236,20 +400,73 @@ export function AgentControlBar({
           >
             <FileText className="h-5 w-5" />
           </Toggle>
+
+          {checklistProgress && checklistProgress.total > 0 && (
+            <div
+              role="progressbar"
+              aria-label={t.controlBar.repairProgress}
+              aria-valuemin={0}
+              aria-valuemax={checklistProgress.total}
+              aria-valuenow={checklistProgress.completed}
+              title={t.controlBar.repairProgress}
+              className={cn(
+                'flex items-center gap-1.5 rounded-full px-2 font-mono text-xs',
+                checklistProgress.completed === checklistProgress.total
+                  ? 'text-green-600 dark:text-green-400'
+                  : 'text-fg1'
+              )}
+            >
+              <ListChecks className="h-4 w-4" />
+              {checklistProgress.completed}/{checklistProgress.total}
+            </div>
+          )}
+
+          {onExportTranscript && <TranscriptExportMenu onExport={onExportTranscript} />}
+
+          {sessionPreferences && onPreferencesChange && (
+            <SessionPreferencesSelect
+              preferences={sessionPreferences}
+              pendingPreferences={pendingPreferences}
+              onChange={onPreferencesChange}
+              disabled={!isAgentAvailable}
+            />
+          )}
+        </div>
+        <div className="flex gap-1">
+          {onInterruptAgent && (agentState === 'speaking' || isInterrupting) && (
+            <Button
+              variant="secondary"
+              onClick={handleInterruptAgent}
+              disabled={isInterrupting}
+              aria-label={t.controlBar.stopAgentLabel}
+              title={t.controlBar.stopAgentLabel}
+              className="font-mono"
+            >
+              <Square className="fill-current" />
+              <span className="hidden md:inline">{t.controlBar.stopAgent}</span>
+            </Button>
+          )}
+          {visibleControls.leave && (
+            <Button
+              variant="destructive"
+              onClick={onLeave}
+              disabled={isDisconnecting}
+              className="font-mono"
+            >
+              <PhoneDisconnectIcon weight="bold" />
+              <span className="hidden md:inline">{t.controlBar.endCall}</span>
+              <span className="inline md:hidden">{t.controlBar.end}</span>
+            </Button>
+          )}
         </div>
-        {visibleControls.leave && (
-          <Button
-            variant="destructive"
-            onClick={onLeave}
-            disabled={isDisconnecting}
-            className="font-mono"
-          >
-            <PhoneDisconnectIcon weight="bold" />
-            <span className="hidden md:inline">END CALL</span>
-            <span className="inline md:hidden">END</span>
-          </Button>
-        )}
       </div>
+
+      <SnapshotDialog
+        image={snapshot}
+        onRetake={handleTakeSnapshot}
+        onCancel={() => setSnapshot(null)}
+        onSend={handleSendSnapshot}
+      />
     </div>
   );
 }
@@ -3,10 +3,11 @@ import { Track } from 'livekit-client';
 import {
   type TrackReferenceOrPlaceholder,
   useLocalParticipant,
-  usePersistentUserChoices,
   useRoomContext,
   useTrackToggle,
 } from '@livekit/components-react';
+import usePersistentChoices from '@/hooks/usePersistentChoices';
+import usePushToTalk from '@/hooks/usePushToTalk';
 import { usePublishPermissions } from './use-publish-permissions';
 
 export interface ControlBarControls {
@@ -29,6 +30,7 @@ export interface UseAgentControlBarReturn {
   microphoneToggle: ReturnType<typeof useTrackToggle<Track.Source.Microphone>>;
   cameraToggle: ReturnType<typeof useTrackToggle<Track.Source.Camera>>;
   screenShareToggle: ReturnType<typeof useTrackToggle<Track.Source.ScreenShare>>;
+  pushToTalk: ReturnType<typeof usePushToTalk>;
   handleDisconnect: () => void;
   handleAudioDeviceChange: (deviceId: string) => void;
   handleVideoDeviceChange: (deviceId: string) => void;
@@ -75,10 +77,17 @@ export function useAgentControlBar(props: UseAgentControlBarProps = {}): UseAgen
     saveAudioInputDeviceId,
     saveVideoInputEnabled,
     saveVideoInputDeviceId,
-  } = usePersistentUserChoices({
+    pushToTalk: pushToTalkEnabled,
+    savePushToTalk,
+  } = usePersistentChoices({
     preventSave: !saveUserChoices,
   });
 
+  const pushToTalk = usePushToTalk({
+    enabled: pushToTalkEnabled,
+    onEnabledChange: savePushToTalk,
+  });
+
   const handleDisconnect = React.useCallback(async () => {
     if (room) {
       await room.disconnect();
@@ -145,6 +154,7 @@ export function useAgentControlBar(props: UseAgentControlBarProps = {}): UseAgen
       ...screenShareToggle,
       toggle: handleToggleScreenShare,
     },
+    pushToTalk,
     handleDisconnect,
     handleAudioDeviceChange,
     handleVideoDeviceChange,
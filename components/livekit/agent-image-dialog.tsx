@@ -0,0 +1,74 @@
+'use client';
+
+import { useEffect, useId } from 'react';
+import { createPortal } from 'react-dom';
+import { X } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import type { ShowImagePayload } from '@/lib/client-rpc';
+import { safeUrl } from '@/lib/utils';
+
+interface AgentImageDialogProps {
+  /** The image the agent asked to show; the dialog is open while this is set. */
+  image: ShowImagePayload | null;
+  onClose: () => void;
+}
+
+/** An image the agent shows the technician, such as a wiring diagram or a part to look for. */
+export function AgentImageDialog({ image, onClose }: AgentImageDialogProps) {
+  const { t } = useTranslation();
+  const titleId = useId();
+
+  useEffect(() => {
+    if (!image) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [image, onClose]);
+
+  if (!image) return null;
+
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/60 p-4"
+      onClick={onClose}
+    >
+      <figure
+        onClick={(e) => e.stopPropagation()}
+        className="bg-background flex max-h-full w-full max-w-2xl flex-col gap-3 rounded-2xl border p-4 shadow-2xl"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h2 id={titleId} className="font-semibold">
+            {t.session.agentImage}
+          </h2>
+          <button
+            onClick={onClose}
+            className="hover:bg-muted rounded-lg p-2 transition-colors"
+            aria-label={t.session.closeImage}
+            title={t.session.closeImage}
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="flex min-h-0 justify-center">
+          {/* Any host the agent links to, which next/image would need configured in advance */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={safeUrl(image.url)}
+            alt={image.caption ?? t.session.agentImage}
+            referrerPolicy="no-referrer"
+            className="block max-h-[70vh] w-auto rounded-lg"
+          />
+        </div>
+        {image.caption && (
+          <figcaption className="text-muted-foreground text-sm">{image.caption}</figcaption>
+        )}
+      </figure>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { File, FileImage, FileText, ScrollText, X } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import useObjectUrl from '@/hooks/useObjectUrl';
+import { attachmentKind, formatFileSize } from '@/lib/attachments';
+import type { ChatAttachment } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const KIND_ICONS = { image: FileImage, pdf: FileText, log: ScrollText };
+
+interface AttachmentCardProps {
+  attachment: ChatAttachment;
+  /** Shown as a cancel button while a local upload is in progress. */
+  onCancel?: (id: string) => void;
+  className?: string;
+}
+
+export function AttachmentCard({ attachment, onCancel, className }: AttachmentCardProps) {
+  const { locale, t } = useTranslation();
+  const { id, name, mimeType, size, status, progress, file } = attachment;
+  const url = useObjectUrl(status === 'done' ? file : undefined);
+  const kind = attachmentKind(mimeType, name);
+  const Icon = kind ? KIND_ICONS[kind] : File;
+  const inProgress = status === 'sending' || status === 'receiving';
+  const percent = new Intl.NumberFormat(locale, { style: 'percent' }).format(progress);
+
+  const statusLabel = {
+    sending: t.attachments.sending(percent),
+    receiving: t.attachments.receiving(percent),
+    cancelled: t.attachments.cancelled,
+    failed: t.attachments.failed,
+    done: null,
+  }[status];
+
+  return (
+    <div
+      className={cn(
+        'bg-background flex w-64 max-w-full flex-col gap-2 rounded-xl border p-2 text-sm',
+        className
+      )}
+    >
+      {kind === 'image' && url && (
+        <a href={url} target="_blank" rel="noopener noreferrer">
+          {/* A local object URL, which next/image cannot optimize */}
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={url} alt={name} className="max-h-48 w-full rounded-lg object-cover" />
+        </a>
+      )}
+      <div className="flex items-center gap-2">
+        <Icon className="text-muted-foreground size-5 shrink-0" />
+        <div className="min-w-0 flex-1">
+          {url ? (
+            <a href={url} download={name} className="block truncate font-medium hover:underline">
+              {name}
+            </a>
+          ) : (
+            <p className="truncate font-medium">{name}</p>
+          )}
+          <p className="text-muted-foreground text-xs">
+            {formatFileSize(size, locale)}
+            {statusLabel && ` · ${statusLabel}`}
+          </p>
+        </div>
+        {status === 'sending' && onCancel && (
+          <button
+            type="button"
+            onClick={() => onCancel(id)}
+            aria-label={t.attachments.cancel}
+            title={t.attachments.cancel}
+            className="hover:bg-muted rounded-full p-1 transition-colors"
+          >
+            <X className="size-4" />
+          </button>
+        )}
+      </div>
+      {inProgress && (
+        <div
+          role="progressbar"
+          aria-label={name}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress * 100)}
+          className="bg-muted h-1 overflow-hidden rounded-full"
+        >
+          <div
+            className="bg-primary h-full transition-[width]"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
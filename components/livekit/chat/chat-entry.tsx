@@ -1,17 +1,26 @@
 import * as React from 'react';
-import type { MessageFormatter, ReceivedChatMessage } from '@livekit/components-react';
+import type { MessageFormatter } from '@livekit/components-react';
+import { useTranslation } from '@/components/i18n-provider';
+import { Markdown } from '@/components/markdown';
+import type { ChatAttachment, ChatEntryMessage } from '@/lib/types';
 import { cn } from '@/lib/utils';
+import { AttachmentCard } from './attachment-card';
 import { useChatMessage } from './hooks/utils';
 
 export interface ChatEntryProps extends React.HTMLAttributes<HTMLLIElement> {
   /** The chat massage object to display. */
-  entry: ReceivedChatMessage;
+  entry: ChatEntryMessage;
   /** Hide sender name. Useful when displaying multiple consecutive chat messages from the same person. */
   hideName?: boolean;
   /** Hide message timestamp. */
   hideTimestamp?: boolean;
   /** An optional formatter for the message body. */
   messageFormatter?: MessageFormatter;
+  /** Files sent with the message, rendered as cards above its text. */
+  attachments?: ChatAttachment[];
+  onCancelAttachment?: (id: string) => void;
+  /** Mark the message as an agent turn that was stopped before it finished. */
+  interrupted?: boolean;
 }
 
 export const ChatEntry = ({
@@ -19,10 +28,17 @@ export const ChatEntry = ({
   messageFormatter,
   hideName,
   hideTimestamp,
+  attachments,
+  onCancelAttachment,
+  interrupted,
   className,
   ...props
 }: ChatEntryProps) => {
-  const { message, hasBeenEdited, time, locale, name } = useChatMessage(entry, messageFormatter);
+  const { message, payloadError, hasBeenEdited, time, locale, name } = useChatMessage(
+    entry,
+    messageFormatter
+  );
+  const { t } = useTranslation();
 
   const isUser = entry.from?.isLocal ?? false;
   const messageOrigin = isUser ? 'remote' : 'local';
@@ -48,10 +64,26 @@ export const ChatEntry = ({
       )}
 
       <span className={cn('max-w-4/5 rounded-[20px] p-2', isUser ? 'bg-muted ml-auto' : 'mr-auto')}>
-        {typeof message === 'string' ? (
-          <div dangerouslySetInnerHTML={{ __html: message }} />
-        ) : (
-          message
+        {attachments?.map((attachment) => (
+          <AttachmentCard
+            key={attachment.id}
+            attachment={attachment}
+            onCancel={onCancelAttachment}
+            className="mb-1 last:mb-0"
+          />
+        ))}
+        {typeof message === 'string'
+          ? message && <Markdown troubleCodes>{message}</Markdown>
+          : message}
+        {interrupted && (
+          <span className="text-muted-foreground mt-1 block text-xs italic">
+            {t.chat.interrupted}
+          </span>
+        )}
+        {payloadError && (
+          <span className="text-destructive-foreground mt-1 block text-xs" title={payloadError}>
+            {t.chat.malformedMessage}: {payloadError}
+          </span>
         )}
       </span>
     </li>
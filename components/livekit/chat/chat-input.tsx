@@ -1,24 +1,85 @@
 import { useEffect, useRef, useState } from 'react';
+import { Car, Paperclip, X } from 'lucide-react';
+import { toastAlert } from '@/components/alert-toast';
+import { useTranslation } from '@/components/i18n-provider';
 import { Button } from '@/components/ui/button';
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_BYTES,
+  attachmentError,
+  formatFileSize,
+} from '@/lib/attachments';
 import { cn } from '@/lib/utils';
+import { decodeVin, findVins } from '@/lib/vin';
 
 interface ChatInputProps extends React.HTMLAttributes<HTMLFormElement> {
   onSend?: (message: string) => void;
+  /** Enables attaching files by button or drag-and-drop; the message becomes their caption. */
+  onSendAttachments?: (files: File[], caption: string) => void;
   disabled?: boolean;
 }
 
-export function ChatInput({ onSend, className, disabled, ...props }: ChatInputProps) {
+export function ChatInput({
+  onSend,
+  onSendAttachments,
+  className,
+  disabled,
+  ...props
+}: ChatInputProps) {
   const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [message, setMessage] = useState<string>('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const { locale, t } = useTranslation();
+
+  const addFiles = (selected: FileList | null) => {
+    const accepted: File[] = [];
+    for (const file of Array.from(selected ?? [])) {
+      const error = attachmentError(file);
+      if (error) {
+        toastAlert({
+          title: t.attachments.rejected,
+          description:
+            error === 'tooLarge'
+              ? t.attachments.tooLarge(file.name, formatFileSize(MAX_ATTACHMENT_BYTES, locale))
+              : t.attachments.unsupportedType(file.name),
+        });
+      } else {
+        accepted.push(file);
+      }
+    }
+    setFiles((prev) => [...prev, ...accepted]);
+  };
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     props.onSubmit?.(e);
-    onSend?.(message);
+    if (files.length > 0) {
+      onSendAttachments?.(files, message.trim());
+      setFiles([]);
+    } else {
+      onSend?.(message);
+    }
     setMessage('');
   };
 
-  const isDisabled = disabled || message.trim().length === 0;
+  const handleDragOver = (e: React.DragEvent<HTMLFormElement>) => {
+    if (!onSendAttachments || disabled || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLFormElement>) => {
+    setIsDragging(false);
+    if (!onSendAttachments || disabled) return;
+    e.preventDefault();
+    addFiles(e.dataTransfer.files);
+  };
+
+  const isDisabled = disabled || (message.trim().length === 0 && files.length === 0);
+  const [detectedVin] = findVins(message);
+  const decodedVin = detectedVin ? decodeVin(detectedVin) : null;
 
   useEffect(() => {
     if (disabled) return;
@@ -30,18 +91,79 @@ export function ChatInput({ onSend, className, disabled, ...props }: ChatInputPr
     <form
       {...props}
       onSubmit={handleSubmit}
-      className={cn('flex items-center gap-2 rounded-md pl-1 text-sm', className)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'flex items-center gap-2 rounded-md pl-1 text-sm',
+        isDragging && 'ring-primary ring-2',
+        className
+      )}
     >
+      {onSendAttachments && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label={t.attachments.attach}
+            title={t.attachments.attach}
+            disabled={disabled}
+            onClick={() => fileInputRef.current?.click()}
+            className="size-8 shrink-0"
+          >
+            <Paperclip />
+          </Button>
+        </>
+      )}
+      {files.map((file, index) => (
+        <span
+          key={`${index}-${file.name}`}
+          className="bg-muted flex max-w-32 shrink-0 items-center gap-1 rounded-full py-0.5 pr-1 pl-2 text-xs"
+        >
+          <span className="truncate">{file.name}</span>
+          <button
+            type="button"
+            aria-label={t.attachments.remove(file.name)}
+            onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+            className="hover:text-foreground text-muted-foreground shrink-0"
+          >
+            <X className="size-3" />
+          </button>
+        </span>
+      ))}
       <input
         autoFocus
         ref={inputRef}
         type="text"
         value={message}
         disabled={disabled}
-        placeholder="Type something..."
+        placeholder={t.chat.placeholder}
         onChange={(e) => setMessage(e.target.value)}
         className="flex-1 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50"
       />
+      {decodedVin && (
+        <span
+          title={t.chat.vinDetected}
+          className="text-muted-foreground flex max-w-40 shrink-0 items-center gap-1 truncate text-xs"
+        >
+          <Car className="h-3.5 w-3.5 shrink-0" />
+          {[decodedVin.manufacturer ?? decodedVin.wmi, decodedVin.modelYear]
+            .filter(Boolean)
+            .join(' ')}
+        </span>
+      )}
       <Button
         size="sm"
         type="submit"
@@ -49,7 +171,7 @@ export function ChatInput({ onSend, className, disabled, ...props }: ChatInputPr
         disabled={isDisabled}
         className="font-mono"
       >
-        SEND
+        {t.chat.send}
       </Button>
     </form>
   );
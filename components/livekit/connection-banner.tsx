@@ -0,0 +1,74 @@
+'use client';
+
+import { Loader2, WifiOff } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { useTranslation } from '@/components/i18n-provider';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface ConnectionBannerProps {
+  /** `reconnecting` while LiveKit recovers on its own; `lost` once it has given up. */
+  status: 'connected' | 'reconnecting' | 'lost';
+  /** Chat messages waiting to be sent once the connection is back. */
+  queuedCount: number;
+  isRejoining?: boolean;
+  onRejoin?: () => void;
+  onLeave?: () => void;
+  className?: string;
+}
+
+export function ConnectionBanner({
+  status,
+  queuedCount,
+  isRejoining,
+  onRejoin,
+  onLeave,
+  className,
+}: ConnectionBannerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <AnimatePresence>
+      {status !== 'connected' && (
+        <motion.div
+          role="status"
+          aria-live="polite"
+          initial={{ opacity: 0, translateY: '-100%' }}
+          animate={{ opacity: 1, translateY: '0%' }}
+          exit={{ opacity: 0, translateY: '-100%' }}
+          transition={{ duration: 0.3, ease: 'easeOut' }}
+          className={cn(
+            'fixed inset-x-0 top-0 z-50 flex flex-wrap items-center justify-center gap-x-4 gap-y-2 px-4 py-3 text-sm',
+            status === 'lost'
+              ? 'bg-destructive text-destructive-foreground'
+              : 'bg-amber-100 text-amber-900 dark:bg-amber-900/60 dark:text-amber-100',
+            className
+          )}
+        >
+          <span className="flex items-center gap-2 font-medium">
+            {status === 'lost' ? (
+              <WifiOff className="h-4 w-4" />
+            ) : (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            )}
+            {status === 'lost' ? t.session.connectionLost : t.session.reconnecting}
+          </span>
+          {queuedCount > 0 && (
+            <span className="text-xs opacity-80">{t.session.queuedMessages(queuedCount)}</span>
+          )}
+          {status === 'lost' && (
+            <span className="flex gap-2">
+              <Button size="sm" onClick={onRejoin} disabled={isRejoining}>
+                {isRejoining && <Loader2 className="animate-spin" />}
+                {t.session.rejoin}
+              </Button>
+              <Button size="sm" variant="outline" onClick={onLeave} disabled={isRejoining}>
+                {t.session.leave}
+              </Button>
+            </span>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { Markdown } from '@/components/markdown';
+import { getMessages } from '@/lib/i18n';
+import {
+  type ReportExportMetadata,
+  reportMetadataEntries,
+  reportSectionsToMarkdown,
+} from '@/lib/report-export';
+import type { DiagnosticReport } from '@/lib/types';
+
+interface ReportPrintLayoutProps {
+  report: DiagnosticReport;
+  metadata: ReportExportMetadata;
+  /** Called once the print dialog closes so the layout can be unmounted. */
+  onAfterPrint: () => void;
+}
+
+/**
+ * Print-only rendering of a diagnostic report. It is portaled next to the app root, which
+ * `globals.css` hides while printing, and opens the browser print dialog once mounted.
+ */
+export function ReportPrintLayout({ report, metadata, onAfterPrint }: ReportPrintLayoutProps) {
+  // Labelled in the session language, like the other export formats
+  const { report: t } = getMessages(metadata.language);
+
+  useEffect(() => {
+    window.addEventListener('afterprint', onAfterPrint);
+    // Wait a frame so the layout is in the DOM before the print snapshot is taken
+    const frame = requestAnimationFrame(() => window.print());
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('afterprint', onAfterPrint);
+    };
+  }, [onAfterPrint]);
+
+  return createPortal(
+    <div className="report-print-root hidden bg-white p-8 text-black print:block">
+      <h1 className="mb-4 text-2xl font-bold">{t.title}</h1>
+      <dl className="mb-6 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+        {reportMetadataEntries(metadata).map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="font-semibold">{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {report.content.trim() && (
+        <>
+          <h2 className="mb-2 border-b pb-1 text-lg font-bold">{t.analysis}</h2>
+          <Markdown className="mb-6">{report.content}</Markdown>
+        </>
+      )}
+      <Markdown className="mb-6">{reportSectionsToMarkdown(report, metadata.language)}</Markdown>
+
+      {report.web_sources.length > 0 && (
+        <section className="mb-6 break-inside-avoid">
+          <h2 className="mb-2 border-b pb-1 text-lg font-bold">{t.webSourcesTitle}</h2>
+          <ul className="space-y-2 text-sm">
+            {report.web_sources.map((source, index) => (
+              <li key={index}>
+                <p className="font-medium">{source.title}</p>
+                <p className="text-xs break-all">{source.url}</p>
+                {source.snippet && <p>{source.snippet}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {report.youtube_videos.length > 0 && (
+        <section className="break-inside-avoid">
+          <h2 className="mb-2 border-b pb-1 text-lg font-bold">{t.videosTitle}</h2>
+          <ul className="space-y-2 text-sm">
+            {report.youtube_videos.map((video, index) => (
+              <li key={index}>
+                <p className="font-medium">{video.title}</p>
+                <p className="text-xs break-all">{video.url}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Gauge,
+  ListOrdered,
+  NotebookPen,
+  Package,
+  ShieldAlert,
+  Target,
+  Wrench,
+} from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import type { RepairChecklist } from '@/hooks/useRepairChecklist';
+import { extractReportSections } from '@/lib/diagnostic-report';
+import type { DiagnosticReport, RepairStep } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const tableClassName = 'w-full border-collapse text-sm';
+const headerCellClassName = 'bg-muted border px-2 py-1 text-left font-semibold';
+const cellClassName = 'border px-2 py-1 align-top';
+
+function SectionTitle({ icon, children }: { icon: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <h3 className="mb-3 flex items-center text-lg font-semibold text-gray-900 dark:text-gray-100 [&>svg]:mr-2 [&>svg]:h-5 [&>svg]:w-5">
+      {icon}
+      {children}
+    </h3>
+  );
+}
+
+const highlightedStepClassName =
+  'ring-offset-background rounded-md ring-2 ring-blue-500 ring-offset-4 dark:ring-blue-400';
+
+// Brings a highlighted step into view once it has been rendered
+const scrollIntoView = (element: HTMLElement | null) =>
+  element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+interface ChecklistStepProps {
+  step: RepairStep;
+  version: number;
+  index: number;
+  checklist: RepairChecklist;
+  highlighted?: boolean;
+}
+
+function ChecklistStep({
+  step,
+  version,
+  index,
+  checklist,
+  highlighted = false,
+}: ChecklistStepProps) {
+  const { locale, t } = useTranslation();
+  const stepKey = { version, index, step: step.description };
+  const { completedAt, note = '' } = checklist.getItem(stepKey);
+  const [editingNote, setEditingNote] = useState(false);
+  const [draft, setDraft] = useState(note);
+
+  const saveNote = () => {
+    setEditingNote(false);
+    if (draft.trim() !== note) checklist.setNote(stepKey, draft.trim());
+  };
+
+  return (
+    <li
+      ref={highlighted ? scrollIntoView : undefined}
+      aria-current={highlighted ? 'step' : undefined}
+      className={cn('flex items-start gap-3', highlighted && highlightedStepClassName)}
+    >
+      <input
+        type="checkbox"
+        checked={completedAt !== undefined}
+        onChange={(e) => checklist.toggleStep(stepKey, e.target.checked)}
+        aria-label={step.description}
+        className="mt-0.5 size-4 shrink-0 cursor-pointer accent-blue-600"
+      />
+      <div className="min-w-0 flex-1">
+        <p className={cn(completedAt !== undefined && 'text-muted-foreground line-through')}>
+          {step.description}
+        </p>
+        {step.details && <p className="text-muted-foreground mt-0.5">{step.details}</p>}
+        <div className="text-muted-foreground mt-1 flex flex-wrap items-center gap-x-3 text-xs">
+          {completedAt !== undefined && (
+            <span>
+              {t.report.completedAt(
+                new Date(completedAt).toLocaleTimeString(locale, { timeStyle: 'short' })
+              )}
+            </span>
+          )}
+          {!editingNote && (
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(note);
+                setEditingNote(true);
+              }}
+              className="hover:text-foreground inline-flex items-center gap-1 transition-colors"
+            >
+              <NotebookPen className="size-3" />
+              {note ? t.report.editNote : t.report.addNote}
+            </button>
+          )}
+        </div>
+        {editingNote ? (
+          <textarea
+            autoFocus
+            rows={2}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={saveNote}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                saveNote();
+              }
+            }}
+            placeholder={t.report.notePlaceholder}
+            className="bg-background mt-1 w-full rounded-md border px-2 py-1 text-sm"
+          />
+        ) : (
+          note && <p className="bg-muted mt-1 rounded-md px-2 py-1 whitespace-pre-wrap">{note}</p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+interface ReportSectionsProps {
+  report: DiagnosticReport;
+  /** Version of the report, which checklist state is kept against. */
+  version: number;
+  /** Makes repair steps checkable, including steps found in freeform content. */
+  checklist?: RepairChecklist;
+  /** Index of a repair step to highlight and scroll to. */
+  highlightedStep?: number;
+}
+
+/**
+ * The structured sections of a diagnostic report. Each section is only shown when the agent
+ * sent it, so reports with freeform content alone render nothing here.
+ */
+export function ReportSections({
+  report,
+  version,
+  checklist,
+  highlightedStep,
+}: ReportSectionsProps) {
+  const { locale, t } = useTranslation();
+  const percent = new Intl.NumberFormat(locale, { style: 'percent' });
+  const {
+    root_causes: rootCauses = [],
+    repair_steps: repairSteps = [],
+    tools = [],
+    parts = [],
+    specifications = [],
+    safety_notes: safetyNotes = [],
+  } = report;
+  // Steps written in the freeform content are already shown there, so they are only repeated
+  // when they can be checked off
+  const steps: RepairStep[] =
+    repairSteps.length > 0 || !checklist
+      ? repairSteps
+      : extractReportSections(report.content).steps.map((description) => ({ description }));
+
+  return (
+    <>
+      {safetyNotes.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
+          <h3 className="mb-2 flex items-center text-lg font-semibold text-amber-700 dark:text-amber-400">
+            <ShieldAlert className="mr-2 h-5 w-5" />
+            {t.report.safetyNotes}
+          </h3>
+          <ul className="list-disc space-y-1 pl-6 text-sm text-amber-900 dark:text-amber-200">
+            {safetyNotes.map((note, index) => (
+              <li key={index}>{note}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {rootCauses.length > 0 && (
+        <div>
+          <SectionTitle icon={<Target />}>{t.report.rootCauses}</SectionTitle>
+          <ol className="space-y-2">
+            {rootCauses.map((cause, index) => (
+              <li key={index} className="flex items-start gap-3 text-sm">
+                <span className="bg-muted flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-semibold">
+                  {index + 1}
+                </span>
+                <div className="flex-1 pt-0.5">
+                  <p>{cause.description}</p>
+                  {cause.confidence !== undefined && (
+                    <div className="mt-1 flex items-center gap-2">
+                      <div
+                        role="meter"
+                        aria-label={t.report.confidence}
+                        aria-valuemin={0}
+                        aria-valuemax={1}
+                        aria-valuenow={cause.confidence}
+                        aria-valuetext={percent.format(cause.confidence)}
+                        className="bg-muted h-1.5 w-24 overflow-hidden rounded-full"
+                      >
+                        <div
+                          className="h-full rounded-full bg-blue-600 dark:bg-blue-400"
+                          style={{ width: `${cause.confidence * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-muted-foreground text-xs">
+                        {t.report.confidence} {percent.format(cause.confidence)}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {steps.length > 0 && (
+        <div>
+          <SectionTitle icon={<ListOrdered />}>
+            {t.report.repairSteps}
+            {checklist && (
+              <span className="text-muted-foreground ml-auto text-sm font-normal">
+                {
+                  steps.filter((_, index) => checklist.getItem({ version, index }).completedAt)
+                    .length
+                }
+                /{steps.length}
+              </span>
+            )}
+          </SectionTitle>
+          {checklist ? (
+            <ol className="space-y-3 text-sm">
+              {steps.map((step, index) => (
+                <ChecklistStep
+                  key={`${index}-${step.description}`}
+                  step={step}
+                  version={version}
+                  index={index}
+                  checklist={checklist}
+                  highlighted={index === highlightedStep}
+                />
+              ))}
+            </ol>
+          ) : (
+            <ol className="list-decimal space-y-2 pl-6 text-sm">
+              {steps.map((step, index) => (
+                <li
+                  key={index}
+                  ref={index === highlightedStep ? scrollIntoView : undefined}
+                  aria-current={index === highlightedStep ? 'step' : undefined}
+                  className={cn(index === highlightedStep && highlightedStepClassName)}
+                >
+                  <p>{step.description}</p>
+                  {step.details && <p className="text-muted-foreground mt-0.5">{step.details}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      {tools.length > 0 && (
+        <div>
+          <SectionTitle icon={<Wrench />}>{t.report.tools}</SectionTitle>
+          <ul className="flex flex-wrap gap-2 text-sm">
+            {tools.map((tool, index) => (
+              <li key={index} className="bg-muted rounded-md px-2 py-1">
+                {tool}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {parts.length > 0 && (
+        <div>
+          <SectionTitle icon={<Package />}>{t.report.parts}</SectionTitle>
+          <div className="overflow-x-auto">
+            <table className={tableClassName}>
+              <thead>
+                <tr>
+                  <th className={headerCellClassName}>{t.report.partName}</th>
+                  <th className={headerCellClassName}>{t.report.partNumber}</th>
+                  <th className={headerCellClassName}>{t.report.quantity}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parts.map((part, index) => (
+                  <tr key={index}>
+                    <td className={cellClassName}>{part.name}</td>
+                    <td className={cn(cellClassName, 'font-mono')}>{part.part_number ?? '—'}</td>
+                    <td className={cellClassName}>{part.quantity ?? 1}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {specifications.length > 0 && (
+        <div>
+          <SectionTitle icon={<Gauge />}>{t.report.specifications}</SectionTitle>
+          <div className="overflow-x-auto">
+            <table className={tableClassName}>
+              <thead>
+                <tr>
+                  <th className={headerCellClassName}>{t.report.specName}</th>
+                  <th className={headerCellClassName}>{t.report.specValue}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {specifications.map((spec, index) => (
+                  <tr key={index}>
+                    <td className={cellClassName}>{spec.name}</td>
+                    <td className={cn(cellClassName, 'whitespace-nowrap')}>
+                      {spec.value}
+                      {spec.unit && ` ${spec.unit}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { Car, Loader2, Pencil } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import { Button } from '@/components/ui/button';
+import { VehicleProfileForm } from '@/components/vehicle-profile-form';
+import type { VehicleProfile } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { invalidVehicleField, isVehicleProfileEmpty, vehicleSummary } from '@/lib/vehicle-profile';
+
+interface SessionHeaderProps {
+  vehicle: VehicleProfile;
+  /** Resolves once the agent has been sent the new vehicle; rejects if that failed. */
+  onVehicleChange?: (vehicle: VehicleProfile) => Promise<void>;
+  className?: string;
+}
+
+export function SessionHeader({ vehicle, onVehicleChange, className }: SessionHeaderProps) {
+  const { t, locale } = useTranslation();
+  const [draft, setDraft] = useState<VehicleProfile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!draft || !onVehicleChange) return;
+    setIsSaving(true);
+    try {
+      await onVehicleChange(draft);
+      setDraft(null);
+    } catch {
+      // The caller reports the error; keep the editor open so nothing typed is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <header
+      className={cn(
+        'fixed inset-x-0 top-0 z-[60] flex h-8 items-center justify-center px-3 md:h-12',
+        className
+      )}
+    >
+      <div className="relative flex max-w-2xl min-w-0 items-center gap-2 text-xs md:text-sm">
+        <Car className="text-muted-foreground h-4 w-4 shrink-0" />
+        <span className="truncate">
+          {isVehicleProfileEmpty(vehicle)
+            ? t.vehicle.none
+            : vehicleSummary(vehicle, {
+                locale,
+                fuelLabel: (fuelType) => t.vehicle.fuelTypes[fuelType],
+              })}
+        </span>
+        {onVehicleChange && (
+          <button
+            onClick={() => setDraft(draft ? null : vehicle)}
+            aria-expanded={draft !== null}
+            aria-label={t.vehicle.edit}
+            title={t.vehicle.edit}
+            className="hover:bg-muted shrink-0 rounded-full p-1.5 transition-colors"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </button>
+        )}
+
+        {draft && (
+          <div className="bg-background absolute top-full left-1/2 mt-2 w-[min(24rem,calc(100vw-1.5rem))] -translate-x-1/2 rounded-lg border p-4 shadow-lg">
+            <h2 className="mb-3 text-sm font-semibold">{t.vehicle.title}</h2>
+            <VehicleProfileForm value={draft} onChange={setDraft} disabled={isSaving} />
+            <div className="mt-4 flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+                {t.vehicle.cancel}
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || invalidVehicleField(draft) !== null}
+              >
+                {isSaving && <Loader2 className="animate-spin" />}
+                {t.vehicle.save}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Globe, Loader2 } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Language, VoiceBase } from '@/hooks/useConnectionDetails';
+import type { SessionPreferences } from '@/hooks/useSessionPreferences';
+import { LANGUAGE_LABELS } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+
+interface SessionPreferencesSelectProps {
+  preferences: SessionPreferences;
+  /** Preferences awaiting the agent's acknowledgement, if a switch is in progress. */
+  pendingPreferences: SessionPreferences | null;
+  onChange: (preferences: SessionPreferences) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SessionPreferencesSelect({
+  preferences,
+  pendingPreferences,
+  onChange,
+  disabled,
+  className,
+}: SessionPreferencesSelectProps) {
+  const { t } = useTranslation();
+  const isSwitching = pendingPreferences !== null;
+  // Show what was picked while the agent confirms, so the select does not snap back meanwhile
+  const shown = pendingPreferences ?? preferences;
+
+  const voiceBases: Array<{ value: VoiceBase; label: string }> = [
+    { value: 'Voice Assistant', label: t.welcome.voiceAssistant },
+    { value: 'Live Assistant', label: t.welcome.liveAssistant },
+  ];
+
+  return (
+    <div className={cn('flex items-center gap-1', className)}>
+      <Select
+        value={shown.language}
+        onValueChange={(language) => onChange({ ...preferences, language: language as Language })}
+        disabled={disabled || isSwitching}
+      >
+        <SelectTrigger
+          size="sm"
+          aria-label={t.controlBar.language}
+          title={isSwitching ? t.controlBar.switching : t.controlBar.language}
+          className="h-full"
+        >
+          {isSwitching ? <Loader2 className="animate-spin" /> : <Globe />}
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(LANGUAGE_LABELS) as Language[]).map((language) => (
+            <SelectItem key={language} value={language}>
+              {LANGUAGE_LABELS[language]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={shown.voiceBase}
+        onValueChange={(voiceBase) =>
+          onChange({ ...preferences, voiceBase: voiceBase as VoiceBase })
+        }
+        disabled={disabled || isSwitching}
+      >
+        <SelectTrigger
+          size="sm"
+          aria-label={t.controlBar.assistantMode}
+          title={t.controlBar.assistantMode}
+          className="hidden h-full font-mono text-xs md:flex"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {voiceBases.map(({ value, label }) => (
+            <SelectItem key={value} value={value} className="font-mono text-xs">
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
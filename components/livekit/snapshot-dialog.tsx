@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Crop, RotateCcw, Send } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import { Button } from '@/components/ui/button';
+import useObjectUrl from '@/hooks/useObjectUrl';
+import { type CropRect, cropImage } from '@/lib/snapshot';
+
+// Drags shorter than this are treated as a click that clears the crop
+const MIN_CROP_FRACTION = 0.03;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+interface SnapshotDialogProps {
+  /** The captured photo; the dialog is open while this is set. */
+  image: Blob | null;
+  onRetake: () => void;
+  onCancel: () => void;
+  onSend: (image: File, caption: string) => Promise<void>;
+}
+
+/**
+ * Preview a camera snapshot, optionally crop it by dragging, and send it with a caption. The
+ * dialog is portaled to the body because the control bar's filters would clip a fixed overlay.
+ */
+export function SnapshotDialog({ image, onRetake, onCancel, onSend }: SnapshotDialogProps) {
+  const { t } = useTranslation();
+  const titleId = useId();
+  const previewUrl = useObjectUrl(image);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [caption, setCaption] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    setCrop(null);
+  }, [image]);
+
+  useEffect(() => {
+    if (!image) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [image, onCancel]);
+
+  if (!image) return null;
+
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointAt(e);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    const point = pointAt(e);
+    setCrop({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    setCrop((current) =>
+      current && current.width > MIN_CROP_FRACTION && current.height > MIN_CROP_FRACTION
+        ? current
+        : null
+    );
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      const photo = await cropImage(image, crop);
+      const file = new File([photo], `snapshot-${Date.now()}.jpg`, { type: 'image/jpeg' });
+      await onSend(file, caption.trim() || t.snapshot.defaultCaption);
+      setCaption('');
+    } catch {
+      // The caller reports the failure; the photo stays open so it can be sent again
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby={titleId}
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/60 p-4"
+      onClick={onCancel}
+    >
+      <form
+        onSubmit={handleSend}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-background flex max-h-full w-full max-w-lg flex-col gap-3 rounded-2xl border p-4 shadow-2xl"
+      >
+        <div className="flex items-center justify-between gap-2">
+          <h2 id={titleId} className="font-semibold">
+            {t.snapshot.title}
+          </h2>
+          <span className="text-muted-foreground flex items-center gap-1 text-xs">
+            <Crop className="size-3" />
+            {t.snapshot.cropHint}
+          </span>
+        </div>
+
+        <div className="flex min-h-0 justify-center">
+          <div
+            ref={frameRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="relative cursor-crosshair touch-none overflow-hidden rounded-lg select-none"
+          >
+            {previewUrl && (
+              // A local object URL, which next/image cannot optimize
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={previewUrl}
+                alt={t.snapshot.title}
+                draggable={false}
+                className="block max-h-[55vh] w-auto"
+              />
+            )}
+            {crop && (
+              <div
+                className="pointer-events-none absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <input
+          type="text"
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          placeholder={t.snapshot.captionPlaceholder}
+          className="bg-background rounded-md border px-3 py-2 text-sm"
+        />
+
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {crop && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => setCrop(null)}>
+              {t.snapshot.resetCrop}
+            </Button>
+          )}
+          <Button type="button" variant="outline" size="sm" onClick={onRetake}>
+            <RotateCcw />
+            {t.snapshot.retake}
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+            {t.snapshot.cancel}
+          </Button>
+          <Button type="submit" variant="primary" size="sm" disabled={isSending}>
+            <Send />
+            {t.snapshot.send}
+          </Button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+}
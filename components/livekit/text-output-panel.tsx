@@ -1,178 +1,369 @@
 'use client';
 
 import React from 'react';
-import { ExternalLink, FileText, Play, X } from 'lucide-react';
+import { ExternalLink, FileDown, FileText, GitCompare, Play, Printer, X } from 'lucide-react';
 import { AnimatePresence, motion } from 'motion/react';
-import { cn } from '@/lib/utils';
+import { toastAlert } from '@/components/alert-toast';
+import { useTranslation } from '@/components/i18n-provider';
+import { ReportPrintLayout } from '@/components/livekit/report-print-layout';
+import { ReportSections } from '@/components/livekit/report-sections';
+import { Markdown } from '@/components/markdown';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { RepairChecklist } from '@/hooks/useRepairChecklist';
+import { parseAgentPayload } from '@/lib/agent-payload';
+import {
+  type DiagnosticReportDiff,
+  type DiffEntry,
+  diffDiagnosticReports,
+  hasReportChanges,
+  hasStructuredSections,
+  payloadReport,
+} from '@/lib/diagnostic-report';
+import {
+  type ReportExportMetadata,
+  canExportPdf,
+  reportFileBaseName,
+  reportToMarkdown,
+  reportToPdf,
+} from '@/lib/report-export';
+import type { DiagnosticReportVersion } from '@/lib/types';
+import { cn, downloadBlob, safeUrl } from '@/lib/utils';
+
+// YouTube video IDs are 11 URL-safe base64 characters; anything else stays out of the thumbnail URL
+const YOUTUBE_VIDEO_ID = /^[\w-]{11}$/;
+
+const formatReceivedAt = (receivedAt: number, locale: string) =>
+  new Date(receivedAt).toLocaleTimeString(locale, { timeStyle: 'short' });
+
+function DiffList<T>({
+  title,
+  entries,
+  label,
+}: {
+  title: string;
+  entries: DiffEntry<T>[];
+  label: (item: T) => string;
+}) {
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-semibold text-gray-900 dark:text-gray-100">{title}</h4>
+      <ul className="space-y-1 text-sm">
+        {entries.map(({ item, status }, index) => (
+          <li
+            key={index}
+            className={cn(
+              'rounded px-2 py-1',
+              status === 'added' &&
+                'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300',
+              status === 'removed' &&
+                'bg-red-50 text-red-800 line-through dark:bg-red-900/20 dark:text-red-300',
+              status === 'unchanged' && 'text-gray-500 dark:text-gray-400'
+            )}
+          >
+            <span className="mr-2 font-mono">
+              {status === 'added' ? '+' : status === 'removed' ? '−' : ' '}
+            </span>
+            {label(item)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function ReportChanges({ diff, since }: { diff: DiagnosticReportDiff; since: number }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50/50 p-4 dark:border-amber-800 dark:bg-amber-900/10">
+      <h3 className="mb-3 flex items-center text-lg font-semibold text-amber-700 dark:text-amber-400">
+        <GitCompare className="mr-2 h-5 w-5" />
+        {t.report.changesSince(since)}
+      </h3>
+      {hasReportChanges(diff) ? (
+        <div className="space-y-4">
+          <DiffList
+            title={t.report.rootCauses}
+            entries={diff.rootCauses}
+            label={(cause) => cause}
+          />
+          <DiffList title={t.report.repairSteps} entries={diff.steps} label={(step) => step} />
+          <DiffList
+            title={t.report.webSources}
+            entries={diff.webSources}
+            label={(source) => source.title}
+          />
+          <DiffList
+            title={t.report.videos}
+            entries={diff.youtubeVideos}
+            label={(video) => video.title}
+          />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 italic">{t.report.noChanges}</p>
+      )}
+    </div>
+  );
+}
+
+/** A report version or repair step to bring into view; each new object is applied once. */
+export interface ReportFocus {
+  /** Show this version instead of the latest. */
+  version?: number;
+  /** Highlight this repair step of the latest report. */
+  step?: number;
+}
 
 interface TextOutputPanelProps {
   isOpen: boolean;
   onClose: () => void;
-  textContent: string; // May be plain text OR JSON string containing {content, web_sources, youtube_videos}
+  /** Every report received this session, oldest first. Each may be plain text or JSON. */
+  versions: DiagnosticReportVersion[];
+  /** Session details included in exported reports. */
+  sessionMetadata?: Pick<ReportExportMetadata, 'roomName' | 'language' | 'vehicle'>;
+  /** Makes the report's repair steps checkable. */
+  checklist?: RepairChecklist;
+  focus?: ReportFocus | null;
   className?: string;
 }
 
 export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
   isOpen,
   onClose,
-  textContent,
+  versions,
+  sessionMetadata,
+  checklist,
+  focus,
   className,
 }) => {
-  // Parse text content to extract structured information
-  const parseStructured = (raw: string) => {
-    try {
-      const parsed = JSON.parse(raw);
+  const [selectedVersion, setSelectedVersion] = React.useState<number | null>(null);
+  const [showChanges, setShowChanges] = React.useState(false);
+  const { locale, t } = useTranslation();
 
-      // Prefer diagnostic_report wrapper
-      if (
-        parsed &&
-        parsed.diagnostic_report &&
-        typeof parsed.diagnostic_report.content === 'string'
-      ) {
-        return {
-          mainContent: parsed.diagnostic_report.content as string,
-          webSources: Array.isArray(parsed.diagnostic_report.web_sources)
-            ? parsed.diagnostic_report.web_sources
-            : [],
-          youtubeVideos: Array.isArray(parsed.diagnostic_report.youtube_videos)
-            ? parsed.diagnostic_report.youtube_videos
-            : [],
-          structured: true,
-        };
-      }
+  React.useEffect(() => {
+    if (focus) setSelectedVersion(focus.version ?? null);
+  }, [focus]);
 
-      // Backwards compatibility: top-level content
-      if (parsed && parsed.content && typeof parsed.content === 'string') {
-        return {
-          mainContent: parsed.content as string,
-          webSources: Array.isArray(parsed.web_sources) ? parsed.web_sources : [],
-          youtubeVideos: Array.isArray(parsed.youtube_videos) ? parsed.youtube_videos : [],
-          structured: true,
-        };
-      }
+  // Follow the latest report unless the user picked an earlier version
+  const current = versions.find((v) => v.version === selectedVersion) ?? versions.at(-1);
+  const previous = current ? versions[current.version - 2] : undefined;
 
-      // Legacy text_output container
-      if (parsed && parsed.text_output && typeof parsed.text_output.content === 'string') {
-        return {
-          mainContent: parsed.text_output.content as string,
-          webSources: Array.isArray(parsed.text_output.web_sources)
-            ? parsed.text_output.web_sources
-            : [],
-          youtubeVideos: Array.isArray(parsed.text_output.youtube_videos)
-            ? parsed.text_output.youtube_videos
-            : [],
-          structured: true,
-        };
-      }
-    } catch (_) {}
-    return null;
-  };
+  const payload = React.useMemo(() => (current ? parseAgentPayload(current.raw) : null), [current]);
+  const report = React.useMemo(() => (payload ? payloadReport(payload) : null), [payload]);
+  const changes = React.useMemo(() => {
+    const previousReport = previous ? payloadReport(parseAgentPayload(previous.raw)) : null;
+    return previousReport && report ? diffDiagnosticReports(previousReport, report) : null;
+  }, [previous, report]);
 
-  const legacyParse = (content: string) => {
-    if (!content) return { mainContent: '', webSources: [], youtubeVideos: [], structured: false };
-    return { mainContent: content, webSources: [], youtubeVideos: [], structured: false };
-  };
+  const [isPrinting, setIsPrinting] = React.useState(false);
+  const [isExportingPdf, setIsExportingPdf] = React.useState(false);
+  const handleAfterPrint = React.useCallback(() => setIsPrinting(false), []);
 
-  const parsed = parseStructured(textContent) || legacyParse(textContent);
-  const { mainContent, webSources, youtubeVideos } = parsed;
+  const exportMetadata: ReportExportMetadata | null = current
+    ? { ...sessionMetadata, version: current.version, receivedAt: current.receivedAt }
+    : null;
 
-  // Format main content with better structure for diagnostic reports
-  const formatMainContent = (content: string) => {
-    return (
-      content
-        // Format section headers (Category, Potential Root Causes, etc.)
-        .replace(
-          /\*\*([^*]+):\*\*/g,
-          '<h3 class="text-lg font-bold text-blue-600 dark:text-blue-400 mt-6 mb-3 border-b border-blue-200 dark:border-blue-800 pb-2">$1</h3>'
-        )
-        // Format single line category descriptions
-        .replace(
-          /\*\*Category:\*\*\s*([^\n]+)/g,
-          '<div class="bg-blue-50 dark:bg-blue-900/20 p-3 rounded-lg mb-4"><strong class="text-blue-700 dark:text-blue-300">Category:</strong> <span class="text-gray-800 dark:text-gray-200">$1</span></div>'
-        )
-        // Format bullet points with better styling
-        .replace(
-          /^[-*•]\s+(.+)$/gm,
-          '<div class="flex items-start mb-3 p-2 hover:bg-gray-50 dark:hover:bg-gray-800/50 rounded"><span class="text-blue-500 mr-3 mt-1 text-lg">•</span><span class="text-gray-800 dark:text-gray-200 leading-relaxed">$1</span></div>'
-        )
-        // Convert line breaks
-        .replace(/\n\n/g, '<div class="my-4"></div>')
-        .replace(/\n/g, '<br>')
+  const handleExportMarkdown = () => {
+    if (!report || !exportMetadata) return;
+    const markdown = reportToMarkdown(report, exportMetadata);
+    downloadBlob(
+      new Blob([markdown], { type: 'text/markdown;charset=utf-8' }),
+      `${reportFileBaseName(exportMetadata)}.md`
     );
   };
 
+  // Reports in scripts the PDF export cannot render are saved as PDF from the print view instead
+  const pdfSupported = !report || !exportMetadata || canExportPdf(report, exportMetadata);
+
+  const handleExportPdf = async () => {
+    if (!report || !exportMetadata) return;
+    if (!pdfSupported) {
+      toastAlert({ title: t.report.pdfViaPrint, description: t.report.pdfViaPrintHint });
+      setIsPrinting(true);
+      return;
+    }
+    setIsExportingPdf(true);
+    try {
+      const pdf = await reportToPdf(report, exportMetadata);
+      downloadBlob(pdf, `${reportFileBaseName(exportMetadata)}.pdf`);
+    } catch (error) {
+      console.error('Failed to export diagnostic report as PDF:', error);
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      toastAlert({ title: t.report.pdfExportError, description: `${name}: ${message}` });
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const mainContent = report?.content ?? '';
+  const webSources = report?.web_sources ?? [];
+  const youtubeVideos = report?.youtube_videos ?? [];
+
   return (
-    <AnimatePresence>
-      {isOpen && (
-        <>
-          {/* Backdrop */}
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-40 bg-black/50"
-            onClick={onClose}
-          />
+    <>
+      {isPrinting && report && exportMetadata && (
+        <ReportPrintLayout
+          report={report}
+          metadata={exportMetadata}
+          onAfterPrint={handleAfterPrint}
+        />
+      )}
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            {/* Backdrop */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 z-40 bg-black/50"
+              onClick={onClose}
+            />
 
-          {/* Panel */}
-          <motion.div
-            initial={{ x: '100%' }}
-            animate={{ x: 0 }}
-            exit={{ x: '100%' }}
-            transition={{ type: 'spring', damping: 25, stiffness: 200 }}
-            className={cn(
-              'bg-background fixed top-0 right-0 z-50 h-full w-full max-w-2xl overflow-hidden border-l shadow-2xl',
-              className
-            )}
-          >
-            {/* Header */}
-            <div className="bg-muted/30 flex items-center justify-between border-b p-4">
-              <div className="flex items-center gap-2">
-                <FileText className="h-5 w-5 text-blue-600" />
-                <h2 className="text-lg font-semibold">Diagnostic Report</h2>
+            {/* Panel */}
+            <motion.div
+              initial={{ x: '100%' }}
+              animate={{ x: 0 }}
+              exit={{ x: '100%' }}
+              transition={{ type: 'spring', damping: 25, stiffness: 200 }}
+              className={cn(
+                'bg-background fixed top-0 right-0 z-50 flex h-full w-full max-w-2xl flex-col overflow-hidden border-l shadow-2xl',
+                className
+              )}
+            >
+              {/* Header */}
+              <div className="bg-muted/30 flex items-center justify-between border-b p-4">
+                <div className="flex items-center gap-2">
+                  <FileText className="h-5 w-5 text-blue-600" />
+                  <h2 className="text-lg font-semibold">{t.report.title}</h2>
+                </div>
+                {current && versions.length > 1 && (
+                  <div className="ml-auto flex items-center gap-2">
+                    <Select
+                      value={String(current.version)}
+                      onValueChange={(value) => {
+                        const version = Number(value);
+                        setSelectedVersion(version === versions.length ? null : version);
+                      }}
+                    >
+                      <SelectTrigger size="sm" aria-label={t.report.version}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions
+                          .slice()
+                          .reverse()
+                          .map((v) => (
+                            <SelectItem key={v.version} value={String(v.version)}>
+                              v{v.version} · {formatReceivedAt(v.receivedAt, locale)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <button
+                      onClick={() => setShowChanges(!showChanges)}
+                      disabled={!changes}
+                      aria-pressed={showChanges}
+                      className={cn(
+                        'hover:bg-muted rounded-lg p-2 transition-colors disabled:opacity-50',
+                        showChanges && changes && 'bg-muted'
+                      )}
+                      aria-label={t.report.showChanges}
+                      title={t.report.showChanges}
+                    >
+                      <GitCompare className="h-5 w-5" />
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={onClose}
+                  className="hover:bg-muted rounded-lg p-2 transition-colors"
+                  aria-label={t.report.close}
+                  title={t.report.close}
+                >
+                  <X className="h-5 w-5" />
+                </button>
               </div>
-              <button
-                onClick={onClose}
-                className="hover:bg-muted rounded-lg p-2 transition-colors"
-                aria-label="Close diagnostic report"
-                title="Close diagnostic report"
-              >
-                <X className="h-5 w-5" />
-              </button>
-            </div>
 
-            {/* Content - Scrollable Container */}
-            <div className="flex-1 overflow-y-auto">
-              <div className="space-y-6 p-6">
-                {/* Main Content - Diagnostic Report */}
-                {mainContent && (
-                  <div className="rounded-lg border border-gray-200 bg-gradient-to-br from-gray-50 to-gray-100 p-6 dark:border-gray-700 dark:from-gray-900 dark:to-gray-800">
-                    <h3 className="mb-4 text-lg font-semibold text-gray-900 dark:text-gray-100">
-                      Diagnostic Analysis
-                    </h3>
-                    <div
-                      dangerouslySetInnerHTML={{ __html: formatMainContent(mainContent) }}
-                      className="diagnostic-content prose prose-sm dark:prose-invert max-w-none"
+              {report && current && (
+                <div className="flex items-center gap-2 border-b px-4 py-2">
+                  <span className="text-muted-foreground mr-auto text-xs">
+                    {t.report.exportVersion}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => setIsPrinting(true)}>
+                    <Printer />
+                    {t.report.print}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleExportMarkdown}>
+                    <FileDown />
+                    {t.report.markdown}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleExportPdf}
+                    disabled={isExportingPdf}
+                    title={pdfSupported ? undefined : t.report.pdfViaPrintHint}
+                  >
+                    <FileDown />
+                    {pdfSupported ? t.report.pdf : t.report.pdfViaPrint}
+                  </Button>
+                </div>
+              )}
+
+              {/* Content - Scrollable Container */}
+              <div className="flex-1 overflow-y-auto">
+                <div className="space-y-6 p-6">
+                  {showChanges && changes && previous && (
+                    <ReportChanges diff={changes} since={previous.version} />
+                  )}
+
+                  {/* Main Content - Diagnostic Report */}
+                  {mainContent && (
+                    <div className="rounded-lg border border-gray-200 bg-gradient-to-br from-gray-50 to-gray-100 p-6 dark:border-gray-700 dark:from-gray-900 dark:to-gray-800">
+                      <h3 className="mb-4 text-lg font-semibold text-gray-900 dark:text-gray-100">
+                        {t.report.analysis}
+                      </h3>
+                      <Markdown
+                        troubleCodes
+                        className="diagnostic-content text-gray-800 dark:text-gray-200"
+                      >
+                        {mainContent}
+                      </Markdown>
+                    </div>
+                  )}
+
+                  {report && current && (
+                    <ReportSections
+                      report={report}
+                      version={current.version}
+                      checklist={checklist}
+                      // Steps are highlighted in the latest report only
+                      highlightedStep={selectedVersion === null ? focus?.step : undefined}
                     />
-                  </div>
-                )}
+                  )}
 
-                {/* Web Sources */}
-                {webSources.length > 0 && (
-                  <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
-                    <h3 className="mb-3 flex items-center text-lg font-semibold text-blue-600 dark:text-blue-400">
-                      <ExternalLink className="mr-2 h-5 w-5" />
-                      Web Sources
-                    </h3>
-                    <div className="space-y-3">
-                      {webSources.map(
-                        (
-                          source: { title: string; url: string; snippet?: string },
-                          index: number
-                        ) => (
+                  {/* Web Sources */}
+                  {webSources.length > 0 && (
+                    <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
+                      <h3 className="mb-3 flex items-center text-lg font-semibold text-blue-600 dark:text-blue-400">
+                        <ExternalLink className="mr-2 h-5 w-5" />
+                        {t.report.webSourcesTitle}
+                      </h3>
+                      <div className="space-y-3">
+                        {webSources.map((source, index) => (
                           <div key={index} className="border-l-2 border-blue-300 pl-3">
                             <a
-                              href={source.url}
+                              href={safeUrl(source.url)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="block font-medium text-blue-600 underline transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
@@ -188,36 +379,26 @@ export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
                               </p>
                             )}
                           </div>
-                        )
-                      )}
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                {/* YouTube Videos */}
-                {youtubeVideos.length > 0 && (
-                  <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
-                    <h3 className="mb-3 flex items-center text-lg font-semibold text-red-600 dark:text-red-400">
-                      <Play className="mr-2 h-5 w-5" />
-                      Diagnostic Videos
-                    </h3>
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                      {youtubeVideos.map(
-                        (
-                          video: {
-                            title: string;
-                            url: string;
-                            thumbnail?: string;
-                            video_id?: string;
-                          },
-                          index: number
-                        ) => (
+                  {/* YouTube Videos */}
+                  {youtubeVideos.length > 0 && (
+                    <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+                      <h3 className="mb-3 flex items-center text-lg font-semibold text-red-600 dark:text-red-400">
+                        <Play className="mr-2 h-5 w-5" />
+                        {t.report.videosTitle}
+                      </h3>
+                      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        {youtubeVideos.map((video, index) => (
                           <div
                             key={index}
                             className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-800"
                           >
                             <a
-                              href={video.url}
+                              href={safeUrl(video.url)}
                               target="_blank"
                               rel="noopener noreferrer"
                               className="group block"
@@ -225,8 +406,8 @@ export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
                               <div className="relative aspect-video bg-gray-100 dark:bg-gray-700">
                                 <img
                                   src={
-                                    video.thumbnail ||
-                                    (video.video_id
+                                    safeUrl(video.thumbnail) ||
+                                    (video.video_id && YOUTUBE_VIDEO_ID.test(video.video_id)
                                       ? `https://img.youtube.com/vi/${video.video_id}/mqdefault.jpg`
                                       : 'https://img.youtube.com/vi/default/mqdefault.jpg')
                                   }
@@ -250,21 +431,32 @@ export const TextOutputPanel: React.FC<TextOutputPanelProps> = ({
                               </div>
                             </a>
                           </div>
-                        )
-                      )}
+                        ))}
+                      </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                {/* If no videos and no web sources and no main content, show placeholder */}
-                {!mainContent && webSources.length === 0 && youtubeVideos.length === 0 && (
-                  <div className="text-sm text-gray-500 italic">No diagnostic data available.</div>
-                )}
+                  {payload && !payload.ok && (
+                    <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+                      <p className="font-semibold">{t.report.unreadable}</p>
+                      <p className="mt-1 font-mono text-xs break-words">{payload.error}</p>
+                    </div>
+                  )}
+
+                  {/* If no videos and no web sources and no main content, show placeholder */}
+                  {payload?.ok !== false &&
+                    !mainContent &&
+                    !(report && hasStructuredSections(report)) &&
+                    webSources.length === 0 &&
+                    youtubeVideos.length === 0 && (
+                      <div className="text-sm text-gray-500 italic">{t.report.empty}</div>
+                    )}
+                </div>
               </div>
-            </div>
-          </motion.div>
-        </>
-      )}
-    </AnimatePresence>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </>
   );
 };
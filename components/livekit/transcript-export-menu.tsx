@@ -0,0 +1,52 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import { Toggle } from '@/components/ui/toggle';
+import { TRANSCRIPT_EXPORT_FORMATS, type TranscriptExportFormat } from '@/lib/transcript-export';
+import { cn } from '@/lib/utils';
+
+interface TranscriptExportMenuProps {
+  onExport: (format: TranscriptExportFormat) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function TranscriptExportMenu({ onExport, disabled, className }: TranscriptExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { t } = useTranslation();
+
+  return (
+    <div className={cn('relative', className)}>
+      <Toggle
+        variant="secondary"
+        aria-label={t.controlBar.exportTranscript}
+        title={t.controlBar.exportTranscript}
+        pressed={isOpen}
+        onPressedChange={setIsOpen}
+        disabled={disabled}
+        className="aspect-square h-full"
+      >
+        <Download className="h-5 w-5" />
+      </Toggle>
+
+      {isOpen && (
+        <div className="bg-background absolute bottom-full left-0 z-20 mb-2 min-w-36 overflow-hidden rounded-lg border shadow-lg">
+          {(Object.keys(TRANSCRIPT_EXPORT_FORMATS) as TranscriptExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => {
+                onExport(format);
+                setIsOpen(false);
+              }}
+              className="hover:bg-muted w-full px-4 py-2 text-left text-sm transition-colors"
+            >
+              {TRANSCRIPT_EXPORT_FORMATS[format].label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+import { DtcChip } from '@/components/dtc-chip';
+import { splitDtcs } from '@/lib/dtc';
+import { cn, safeUrl } from '@/lib/utils';
+
+const linkClassName =
+  'text-blue-600 underline break-words transition-colors hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300';
+
+const components: Components = {
+  h1: ({ children }) => <h2 className="mt-6 mb-3 text-xl font-bold first:mt-0">{children}</h2>,
+  h2: ({ children }) => <h3 className="mt-6 mb-3 text-lg font-bold first:mt-0">{children}</h3>,
+  h3: ({ children }) => (
+    <h3 className="mt-6 mb-3 border-b border-blue-200 pb-2 text-lg font-bold text-blue-600 first:mt-0 dark:border-blue-800 dark:text-blue-400">
+      {children}
+    </h3>
+  ),
+  h4: ({ children }) => <h4 className="mt-4 mb-2 font-semibold first:mt-0">{children}</h4>,
+  h5: ({ children }) => <h5 className="mt-4 mb-2 font-semibold first:mt-0">{children}</h5>,
+  h6: ({ children }) => <h6 className="mt-4 mb-2 font-semibold first:mt-0">{children}</h6>,
+  p: ({ children }) => <p className="my-2 leading-relaxed first:mt-0 last:mb-0">{children}</p>,
+  strong: ({ children }) => (
+    <strong className="font-semibold text-gray-900 dark:text-gray-100">{children}</strong>
+  ),
+  ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-6">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-6">{children}</ol>,
+  li: ({ children }) => <li className="leading-relaxed [&>ol]:my-1 [&>ul]:my-1">{children}</li>,
+  a: ({ href, children }) =>
+    href ? (
+      <a href={href} target="_blank" rel="noopener noreferrer" className={linkClassName}>
+        {children}
+      </a>
+    ) : (
+      <span>{children}</span>
+    ),
+  img: ({ src, alt }) =>
+    typeof src === 'string' ? (
+      // Agent images come from arbitrary hosts, so next/image optimization does not apply
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={src}
+        alt={alt ?? ''}
+        loading="lazy"
+        className="my-2 h-auto max-w-full rounded-lg shadow-sm"
+      />
+    ) : null,
+  blockquote: ({ children }) => (
+    <blockquote className="text-muted-foreground my-2 border-l-4 pl-3 italic">
+      {children}
+    </blockquote>
+  ),
+  hr: () => <hr className="my-4" />,
+  pre: ({ children }) => (
+    <pre className="bg-muted my-2 overflow-x-auto rounded-lg p-3 text-xs [&>code]:bg-transparent [&>code]:p-0">
+      {children}
+    </pre>
+  ),
+  code: ({ children }) => (
+    <code className="bg-muted rounded px-1 font-mono text-[0.9em]">{children}</code>
+  ),
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th style={style} className="bg-muted border px-2 py-1 text-left font-semibold">
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="border px-2 py-1 align-top">
+      {children}
+    </td>
+  ),
+};
+
+const dtcComponents: Components = {
+  ...components,
+  span: ({ node, ...props }) => {
+    const code = node?.properties.dataDtc;
+    return typeof code === 'string' ? <DtcChip code={code} /> : <span {...props} />;
+  },
+};
+
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: { hName?: string; hProperties?: Record<string, string> };
+}
+
+/**
+ * Remark plugin marking OBD-II trouble codes in text as `<span data-dtc>` so they can be
+ * rendered as chips. Code spans, code blocks and link text are left as written.
+ */
+function remarkDtc() {
+  const transform = (node: MarkdownNode) => {
+    if (!node.children || node.type === 'link' || node.type === 'linkReference') return;
+    node.children = node.children.flatMap((child): MarkdownNode[] => {
+      if (child.type !== 'text') {
+        transform(child);
+        return [child];
+      }
+      return splitDtcs(child.value ?? '').map((part) =>
+        typeof part === 'string'
+          ? { type: 'text', value: part }
+          : {
+              type: 'dtc',
+              data: { hName: 'span', hProperties: { dataDtc: part.code } },
+              children: [{ type: 'text', value: part.code }],
+            }
+      );
+    });
+  };
+  return transform;
+}
+
+/**
+ * Agents write `•` bullets and `**Header:**` lines on their own; map them onto markdown
+ * lists and headings so they render like any other list or section.
+ */
+function normalizeAgentMarkdown(text: string) {
+  return text.replace(/^(\s*)•\s+/gm, '$1- ').replace(/^\*\*([^*\n]+):\*\*\s*$/gm, '### $1');
+}
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+  /** Render OBD-II trouble codes such as P0301 as chips with their description. */
+  troubleCodes?: boolean;
+}
+
+/**
+ * Render agent-provided markdown as React elements. Raw HTML is never rendered and every
+ * link and image URL is checked against the `safeUrl` scheme allowlist.
+ */
+export function Markdown({ children, className, troubleCodes = false }: MarkdownProps) {
+  return (
+    <div className={cn('text-sm break-words whitespace-normal', className)}>
+      <ReactMarkdown
+        remarkPlugins={
+          troubleCodes ? [remarkGfm, remarkBreaks, remarkDtc] : [remarkGfm, remarkBreaks]
+        }
+        components={troubleCodes ? dtcComponents : components}
+        urlTransform={(url) => safeUrl(url)}
+      >
+        {normalizeAgentMarkdown(children)}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Car, Clock, FileText } from 'lucide-react';
+import { I18nProvider, useTranslation } from '@/components/i18n-provider';
+import { ChatEntry } from '@/components/livekit/chat/chat-entry';
+import { TextOutputPanel } from '@/components/livekit/text-output-panel';
+import { formatSessionDuration } from '@/components/session-history';
+import { Button } from '@/components/ui/button';
+import { LANGUAGE_LABELS } from '@/lib/i18n';
+import { getSession, transcriptEntryToChatMessage } from '@/lib/session-history';
+import type { SessionRecord } from '@/lib/types';
+import { isVehicleProfileEmpty, vehicleSummary } from '@/lib/vehicle-profile';
+
+function BackLink() {
+  const { t } = useTranslation();
+
+  return (
+    <Button asChild variant="outline">
+      <Link href="/sessions">
+        <ArrowLeft />
+        {t.history.allSessions}
+      </Link>
+    </Button>
+  );
+}
+
+function SessionTranscript({ session }: { session: SessionRecord }) {
+  const { t, locale } = useTranslation();
+  const [reportOpen, setReportOpen] = useState(false);
+  const messages = useMemo(
+    () => session.transcript.map(transcriptEntryToChatMessage),
+    [session.transcript]
+  );
+
+  return (
+    <>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <h1 className="text-2xl font-semibold">
+            {new Date(session.startedAt).toLocaleString(locale, {
+              dateStyle: 'medium',
+              timeStyle: 'short',
+            })}
+          </h1>
+          <p className="text-muted-foreground flex items-center gap-1.5 text-sm">
+            <Car className="size-4 shrink-0" />
+            {isVehicleProfileEmpty(session.vehicle)
+              ? t.history.noVehicle
+              : vehicleSummary(session.vehicle, {
+                  locale,
+                  fuelLabel: (fuelType) => t.vehicle.fuelTypes[fuelType],
+                })}
+          </p>
+          <p className="text-muted-foreground flex flex-wrap items-center gap-x-3 text-xs">
+            <span className="flex items-center gap-1">
+              <Clock className="size-3" />
+              {formatSessionDuration(session, t)}
+            </span>
+            <span>{LANGUAGE_LABELS[session.language]}</span>
+            {session.roomName && <span className="font-mono">{session.roomName}</span>}
+          </p>
+        </div>
+        <BackLink />
+      </div>
+
+      {session.reportVersions.length > 0 && (
+        <Button variant="outline" className="mb-6" onClick={() => setReportOpen(true)}>
+          <FileText />
+          {t.history.viewReport}
+        </Button>
+      )}
+
+      <ul className="space-y-3 whitespace-pre-wrap">
+        {messages.map((message, index) => (
+          <ChatEntry
+            key={message.id}
+            hideName
+            entry={message}
+            interrupted={session.transcript[index].interrupted}
+          />
+        ))}
+      </ul>
+
+      <TextOutputPanel
+        isOpen={reportOpen}
+        onClose={() => setReportOpen(false)}
+        versions={session.reportVersions}
+        sessionMetadata={{
+          roomName: session.roomName,
+          language: session.language,
+          vehicle: session.vehicle,
+        }}
+      />
+    </>
+  );
+}
+
+interface SessionDetailProps {
+  id: string;
+}
+
+/** Read-only view of a past session: its transcript as it appeared in the chat, and its reports. */
+export function SessionDetail({ id }: SessionDetailProps) {
+  const { t } = useTranslation();
+  // `undefined` while loading, `null` if there is no such session
+  const [session, setSession] = useState<SessionRecord | null>();
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSession(id)
+      .then(setSession)
+      .catch((error) => {
+        const { name, message } = error instanceof Error ? error : new Error(String(error));
+        setLoadError(`${name}: ${message}`);
+      });
+  }, [id]);
+
+  return (
+    <main className="mx-auto min-h-svh w-full max-w-2xl px-4 pt-8 pb-24 md:pt-36">
+      {session ? (
+        // The session is shown in the language it was held in
+        <I18nProvider language={session.language}>
+          <SessionTranscript session={session} />
+        </I18nProvider>
+      ) : (
+        <>
+          <div className="mb-6 flex justify-end">
+            <BackLink />
+          </div>
+          {loadError ? (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+              <p className="font-semibold">{t.history.loadError}</p>
+              <p className="mt-1 font-mono text-xs break-words">{loadError}</p>
+            </div>
+          ) : session === null ? (
+            <p className="text-muted-foreground text-sm italic">{t.history.notFound}</p>
+          ) : (
+            <p className="text-muted-foreground text-sm">{t.history.loading}</p>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Car, Clock, Search, Trash2 } from 'lucide-react';
+import { Toaster } from 'sonner';
+import { toastAlert } from '@/components/alert-toast';
+import { useTranslation } from '@/components/i18n-provider';
+import { Button } from '@/components/ui/button';
+import { LANGUAGE_LABELS, type Messages } from '@/lib/i18n';
+import {
+  deleteSession,
+  filterSessions,
+  listSessions,
+  sessionDurationSeconds,
+} from '@/lib/session-history';
+import type { SessionRecord } from '@/lib/types';
+import { isVehicleProfileEmpty, vehicleSummary } from '@/lib/vehicle-profile';
+
+export function formatSessionDuration(session: SessionRecord, t: Messages) {
+  const seconds = sessionDurationSeconds(session);
+  return t.history.duration(Math.floor(seconds / 60), seconds % 60);
+}
+
+interface SessionRowProps {
+  session: SessionRecord;
+  onDelete: (id: string) => void;
+}
+
+function SessionRow({ session, onDelete }: SessionRowProps) {
+  const { t, locale } = useTranslation();
+  const messageCount = session.transcript.filter((entry) => entry.text.trim()).length;
+
+  return (
+    <li className="hover:bg-muted/50 flex items-center gap-3 rounded-lg border p-4 transition-colors">
+      <Link href={`/sessions/${session.id}`} className="flex min-w-0 flex-1 flex-col gap-1">
+        <span className="font-medium">
+          {new Date(session.startedAt).toLocaleString(locale, {
+            dateStyle: 'medium',
+            timeStyle: 'short',
+          })}
+        </span>
+        <span className="text-muted-foreground flex items-center gap-1.5 truncate text-sm">
+          <Car className="size-4 shrink-0" />
+          {isVehicleProfileEmpty(session.vehicle)
+            ? t.history.noVehicle
+            : vehicleSummary(session.vehicle, {
+                locale,
+                fuelLabel: (fuelType) => t.vehicle.fuelTypes[fuelType],
+              })}
+        </span>
+        <span className="text-muted-foreground flex flex-wrap items-center gap-x-3 text-xs">
+          <span className="flex items-center gap-1">
+            <Clock className="size-3" />
+            {formatSessionDuration(session, t)}
+          </span>
+          <span>{LANGUAGE_LABELS[session.language]}</span>
+          <span>{t.history.messages(messageCount)}</span>
+          {session.reportVersions.length > 0 && (
+            <span>{t.history.reports(session.reportVersions.length)}</span>
+          )}
+        </span>
+      </Link>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onDelete(session.id)}
+        aria-label={t.history.delete}
+        title={t.history.delete}
+      >
+        <Trash2 />
+      </Button>
+    </li>
+  );
+}
+
+/** Sessions kept in this browser, newest first, searchable by vehicle and start date. */
+export function SessionHistory() {
+  const { t } = useTranslation();
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [date, setDate] = useState('');
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((error) => {
+        const { name, message } = error instanceof Error ? error : new Error(String(error));
+        setLoadError(`${name}: ${message}`);
+      });
+  }, []);
+
+  const visible = useMemo(
+    () => (sessions ? filterSessions(sessions, { query, date }) : []),
+    [sessions, query, date]
+  );
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(t.history.deleteConfirm)) return;
+    try {
+      await deleteSession(id);
+      setSessions((prev) => prev?.filter((session) => session.id !== id) ?? null);
+    } catch (error) {
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      toastAlert({ title: t.history.deleteError, description: `${name}: ${message}` });
+    }
+  };
+
+  return (
+    <main className="mx-auto min-h-svh w-full max-w-2xl px-4 pt-8 pb-24 md:pt-36">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{t.history.title}</h1>
+          <p className="text-muted-foreground text-sm">{t.history.localOnly}</p>
+        </div>
+        <Button asChild variant="outline">
+          <Link href="/">
+            <ArrowLeft />
+            {t.history.newSession}
+          </Link>
+        </Button>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <label className="bg-background focus-within:ring-ring/50 flex h-9 min-w-0 flex-1 items-center gap-2 rounded-md border px-3 focus-within:ring-[3px]">
+          <Search className="text-muted-foreground size-4 shrink-0" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.history.search}
+            aria-label={t.history.search}
+            className="min-w-0 flex-1 bg-transparent text-sm outline-none"
+          />
+        </label>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          aria-label={t.history.date}
+          title={t.history.date}
+          className="bg-background h-9 rounded-md border px-3 text-sm"
+        />
+        {(query || date) && (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setQuery('');
+              setDate('');
+            }}
+          >
+            {t.history.clearFilters}
+          </Button>
+        )}
+      </div>
+
+      {loadError ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-900/20 dark:text-red-300">
+          <p className="font-semibold">{t.history.loadError}</p>
+          <p className="mt-1 font-mono text-xs break-words">{loadError}</p>
+        </div>
+      ) : !sessions ? (
+        <p className="text-muted-foreground text-sm">{t.history.loading}</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-muted-foreground text-sm italic">{t.history.empty}</p>
+      ) : visible.length === 0 ? (
+        <p className="text-muted-foreground text-sm italic">{t.history.noMatches}</p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map((session) => (
+            <SessionRow key={session.id} session={session} onDelete={handleDelete} />
+          ))}
+        </ul>
+      )}
+
+      <Toaster />
+    </main>
+  );
+}
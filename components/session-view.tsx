@@ -1,23 +1,49 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ConnectionState, DisconnectReason, RoomEvent } from 'livekit-client';
 import { AnimatePresence, motion } from 'motion/react';
 import {
   type AgentState,
   type ReceivedChatMessage,
+  useConnectionState,
   useRoomContext,
   useVoiceAssistant,
 } from '@livekit/components-react';
 import { toastAlert } from '@/components/alert-toast';
+import { DtcExplainProvider } from '@/components/dtc-chip';
+import { useTranslation } from '@/components/i18n-provider';
 import { AgentControlBar } from '@/components/livekit/agent-control-bar/agent-control-bar';
+import { AgentImageDialog } from '@/components/livekit/agent-image-dialog';
 import { ChatEntry } from '@/components/livekit/chat/chat-entry';
 import { ChatMessageView } from '@/components/livekit/chat/chat-message-view';
+import { ConnectionBanner } from '@/components/livekit/connection-banner';
 import { MediaTiles } from '@/components/livekit/media-tiles';
-import { TextOutputPanel } from '@/components/livekit/text-output-panel';
+import { SessionHeader } from '@/components/livekit/session-header';
+import { type ReportFocus, TextOutputPanel } from '@/components/livekit/text-output-panel';
 import useChatAndTranscription from '@/hooks/useChatAndTranscription';
+import useChatAttachments from '@/hooks/useChatAttachments';
+import useClientRpc from '@/hooks/useClientRpc';
+import type { Language, VoiceBase } from '@/hooks/useConnectionDetails';
 import { useDebugMode } from '@/hooks/useDebug';
-import type { AppConfig } from '@/lib/types';
-import { cn } from '@/lib/utils';
+import useDiagnosticReport from '@/hooks/useDiagnosticReport';
+import useInterruptAgent from '@/hooks/useInterruptAgent';
+import useQueuedSend from '@/hooks/useQueuedSend';
+import useRepairChecklist from '@/hooks/useRepairChecklist';
+import type { SessionPreferences } from '@/hooks/useSessionPreferences';
+import useSessionRecorder from '@/hooks/useSessionRecorder';
+import { parseAgentPayload } from '@/lib/agent-payload';
+import type { ShowImagePayload } from '@/lib/client-rpc';
+import { payloadReport, reportSections } from '@/lib/diagnostic-report';
+import {
+  TRANSCRIPT_EXPORT_FORMATS,
+  type TranscriptExportFormat,
+  downloadTranscript,
+} from '@/lib/transcript-export';
+import type { AppConfig, TranscriptEntry, VehicleProfile } from '@/lib/types';
+import { cn, isSessionEnd } from '@/lib/utils';
+import { withVin } from '@/lib/vehicle-profile';
+import { findVins } from '@/lib/vin';
 
 function isAgentAvailable(agentState: AgentState) {
   return agentState == 'listening' || agentState == 'thinking' || agentState == 'speaking';
@@ -28,138 +54,259 @@ export interface SessionViewProps {
   disabled: boolean;
   sessionStarted: boolean;
   /** UI language for labels/subtitles/etc. */
-  language: 'en' | 'kn' | 'hi' | 'ta';
+  language: Language;
+  voiceBase: VoiceBase;
+  /** Preferences awaiting the agent's acknowledgement, if a switch is in progress. */
+  pendingPreferences?: SessionPreferences | null;
+  /** Switch language or voice base without leaving the room. */
+  onPreferencesChange?: (preferences: SessionPreferences) => void;
+  vehicle: VehicleProfile;
+  /** Update the vehicle mid-session; rejects if the agent could not be told. */
+  onVehicleChange?: (vehicle: VehicleProfile) => Promise<void>;
+  /** Token the room was joined with; authorizes room-scoped API calls. */
+  participantToken?: string;
+  /** The connection dropped and could not be recovered; the user can rejoin or leave. */
+  connectionLost?: boolean;
+  isRejoining?: boolean;
+  onRejoin?: () => void;
+  onLeave?: () => void;
 }
 
 /** Full props including native <main> attributes */
 export type SessionViewComponentProps = React.ComponentProps<'main'> & SessionViewProps;
 
 export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentProps>(
-  ({ appConfig, disabled, sessionStarted, ...mainProps }, ref) => {
+  (
+    {
+      appConfig,
+      disabled,
+      sessionStarted,
+      language,
+      voiceBase,
+      pendingPreferences,
+      onPreferencesChange,
+      vehicle,
+      onVehicleChange,
+      participantToken,
+      connectionLost,
+      isRejoining,
+      onRejoin,
+      onLeave,
+      ...mainProps
+    },
+    ref
+  ) => {
     const { state: agentState } = useVoiceAssistant();
     const [chatOpen, setChatOpen] = useState(false);
     const [textOutputOpen, setTextOutputOpen] = useState(false);
-    const [diagnosticData, setDiagnosticData] = useState<string>(''); // Store diagnostic data from API
-    const { messages, send } = useChatAndTranscription();
+    const [reportFocus, setReportFocus] = useState<ReportFocus | null>(null);
+    const [agentImage, setAgentImage] = useState<ShowImagePayload | null>(null);
+    const { messages, transcript, send, interruptedIds, markInterrupted } =
+      useChatAndTranscription();
+    const { interrupt: interruptAgent } = useInterruptAgent();
+    const { attachments, sendAttachments, cancelAttachment } = useChatAttachments();
     const room = useRoomContext();
+    const { t } = useTranslation();
+    const connectionState = useConnectionState();
+    const { send: queuedSend, queuedCount } = useQueuedSend(send, sessionStarted);
+
+    const connectionStatus = connectionLost
+      ? 'lost'
+      : connectionState === ConnectionState.Reconnecting ||
+          connectionState === ConnectionState.SignalReconnecting
+        ? 'reconnecting'
+        : 'connected';
 
     useDebugMode({
-      // FIX: NODE_ENV (not NODE_END)
       enabled: process.env.NODE_ENV !== 'production',
     });
 
-    // Fetch diagnostic data from the new API
-    const fetchDiagnosticData = async () => {
-      try {
-        console.log('🌐 Fetching diagnostic data from API...');
-
-        // Use environment variable for API URL, fallback to localhost for development
-        const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:8001';
-        const apiUrl = `${apiBaseUrl}/api/diagnostic-data`;
-
-        console.log('🌐 API URL:', apiUrl);
-        const response = await fetch(apiUrl);
-
-        if (response.ok) {
-          const result = await response.json();
-          if (result.data) {
-            console.log('✅ API Response received:', result.data);
-            // Convert API response to format expected by TextOutputPanel
-            const formattedData = JSON.stringify(result.data);
-            setDiagnosticData(formattedData);
-            console.log('✅ Diagnostic data updated:', formattedData.substring(0, 200) + '...');
-            return true;
-          } else {
-            console.log('📭 No diagnostic data available in API response');
-            return false;
-          }
-        } else {
-          console.log('⚠️ API response not ok:', response.status, response.statusText);
-          return false;
-        }
-      } catch (error) {
-        console.error('❌ Failed to fetch diagnostic data:', error);
-        return false;
-      }
-    };
-
-    // Monitor messages and fetch diagnostic data when new assistant messages arrive
-    useEffect(() => {
-      const assistantMessages = messages.filter((msg) => !msg.from?.isLocal);
-
-      if (assistantMessages.length > 0) {
-        console.log('📨 New message detected, checking for diagnostic data...');
+    // Only agent turns can produce a new report, so user messages never trigger the fallback
+    const latestAgentMessageId = messages.findLast((msg) => !msg.from?.isLocal)?.id;
+    const { versions: reportVersions } = useDiagnosticReport({
+      sessionStarted,
+      pollFallback: appConfig.isDiagnosticPollFallbackEnabled,
+      pollTrigger: latestAgentMessageId,
+      participantToken,
+    });
 
-        // Small delay to ensure backend has processed and stored the data
-        const timeoutId = setTimeout(() => {
-          fetchDiagnosticData();
-        }, 1000); // 1 second delay
+    // Progress is tracked against the latest report, whichever version the panel shows
+    const latestRepairSteps = useMemo(() => {
+      const latest = reportVersions.at(-1);
+      const report = latest ? payloadReport(parseAgentPayload(latest.raw)) : null;
+      return latest && report
+        ? { version: latest.version, steps: reportSections(report).steps }
+        : null;
+    }, [reportVersions]);
+    const checklist = useRepairChecklist(latestRepairSteps);
+
+    useSessionRecorder({
+      sessionStarted,
+      transcript,
+      reportVersions,
+      vehicle,
+      language,
+      voiceBase,
+    });
 
-        return () => clearTimeout(timeoutId);
-      }
-    }, [messages]);
+    const handleTextOutputToggle = useCallback((open: boolean) => {
+      setTextOutputOpen(open);
+      // A step the agent highlighted stays highlighted until the report is closed
+      if (!open) setReportFocus(null);
+    }, []);
+    const handleCloseAgentImage = useCallback(() => setAgentImage(null), []);
+
+    useClientRpc({
+      open_report_panel: ({ version }) => {
+        if (version !== undefined && version > reportVersions.length) {
+          throw new Error(`There is no report version ${version}`);
+        }
+        setReportFocus({ version });
+        setTextOutputOpen(true);
+        return { version: version ?? reportVersions.at(-1)?.version ?? null };
+      },
+      show_image: (image) => setAgentImage(image),
+      highlight_step: (payload) => {
+        const steps = latestRepairSteps?.steps ?? [];
+        let stepIndex: number;
+        if ('step' in payload) {
+          const step = payload.step.toLowerCase();
+          stepIndex = steps.findIndex((description) => description.toLowerCase() === step);
+          if (stepIndex < 0) throw new Error(`The latest report has no step "${payload.step}"`);
+        } else {
+          stepIndex = payload.index;
+        }
+        if (stepIndex >= steps.length) {
+          throw new Error(`The latest report has ${steps.length} repair steps`);
+        }
+        setReportFocus({ step: stepIndex });
+        setTextOutputOpen(true);
+        return { index: stepIndex };
+      },
+      set_language: ({ language: nextLanguage, voiceBase: nextVoiceBase = voiceBase }) => {
+        if (!onPreferencesChange) throw new Error('The language cannot be changed in this session');
+        onPreferencesChange({ language: nextLanguage, voiceBase: nextVoiceBase });
+      },
+    });
 
     async function handleSendMessage(message: string) {
-      await send(message);
+      // A VIN typed in chat updates the vehicle profile, which is how the agent receives it decoded
+      const [vin] = findVins(message);
+      if (vin && vin !== vehicle.vin && onVehicleChange) {
+        // A different VIN is a different vehicle, so details of the previous one are dropped
+        const base = vehicle.vin ? {} : vehicle;
+        // Failures are reported by the caller; the message is sent either way
+        onVehicleChange(withVin(base, vin)).catch(() => {});
+      }
+      await queuedSend(message);
     }
 
-    // Get the latest text content for the diagnostic report panel
-    // NEW: Use diagnostic data from API instead of parsing messages
-    const getLatestTextContent = (): string => {
-      console.log('🔍 getLatestTextContent: Using diagnostic data from API');
-      console.log('🔍 Current diagnostic data length:', diagnosticData.length);
-
-      if (diagnosticData) {
-        console.log(
-          '✅ Returning diagnostic data from API:',
-          diagnosticData.substring(0, 200) + '...'
-        );
-        return diagnosticData;
+    async function handleInterruptAgent() {
+      // The turn being cut short is the agent's latest message at the time of the press
+      const turnId = latestAgentMessageId;
+      try {
+        await interruptAgent();
+        if (turnId) markInterrupted(turnId);
+      } catch (error) {
+        const { name, message } = error instanceof Error ? error : new Error(String(error));
+        toastAlert({ title: t.toast.interruptError, description: `${name}: ${message}` });
       }
+    }
 
-      console.log('📭 No diagnostic data available, showing empty state');
-      return '';
-    };
-
-    // Derive chat display messages (now expecting simple voice-friendly text)
-    const displayMessages = messages.map((m) => {
-      if (typeof m.message === 'string') {
-        // NEW: Backend now returns only voice-friendly text, no JSON parsing needed
-        console.log('📝 Processing message for chat display:', m.message.substring(0, 100));
-
-        // Legacy support: Try to parse structured JSON if present (backwards compatibility)
-        try {
-          const parsed = JSON.parse(m.message);
-          if (parsed && parsed.voice_output) {
-            console.log('✅ Found legacy voice_output in message');
-            return { ...m, message: parsed.voice_output };
-          }
-        } catch {}
+    async function handleSendAttachments(files: File[], caption: string, errorTitle: string) {
+      try {
+        await sendAttachments(files, caption || undefined);
+      } catch (error) {
+        const { name, message } = error instanceof Error ? error : new Error(String(error));
+        toastAlert({ title: errorTitle, description: `${name}: ${message}` });
+        throw error;
+      }
+    }
 
-        // Legacy support: VOICE|||TEXT pattern -> display voice portion in chat
-        const match = m.message.match(/^VOICE:([\s\S]*?)\|\|\|TEXT:[\s\S]*$/);
-        if (match) {
-          console.log('✅ Found legacy VOICE|||TEXT pattern');
-          return { ...m, message: match[1].trim() };
-        }
+    // Attachments are listed in the chat as entries of their own, captioned by their message
+    const chatEntries = useMemo(
+      () =>
+        [
+          ...messages.map((entry) => ({ entry, attachments: undefined })),
+          ...attachments.map((attachment) => ({
+            entry: {
+              id: attachment.id,
+              timestamp: attachment.timestamp,
+              message: attachment.caption ?? '',
+              from: attachment.isLocal
+                ? room.localParticipant
+                : room.remoteParticipants.get(attachment.participantIdentity),
+            } satisfies ReceivedChatMessage,
+            attachments: [attachment],
+          })),
+        ].sort((a, b) => a.entry.timestamp - b.entry.timestamp),
+      [messages, attachments, room]
+    );
 
-        // NEW: Default behavior - message is already voice-friendly
-        console.log('✅ Using message as-is (voice-friendly format)');
-      }
-      return m;
+    // The room forgets its name on disconnect, but exports after the call still need it
+    const transcriptExport = useRef<{ transcript: TranscriptEntry[]; roomName?: string }>({
+      transcript: [],
     });
+    transcriptExport.current.transcript = transcript;
+    if (room.name) transcriptExport.current.roomName = room.name;
+
+    const handleExportTranscript = useCallback(
+      (format: TranscriptExportFormat) => {
+        const { transcript, roomName } = transcriptExport.current;
+        downloadTranscript(format, transcript, { roomName, language });
+      },
+      [language]
+    );
 
+    // Offer the transcript once more when the call ends, before it is gone. A dropped connection
+    // keeps the session view up so the user can rejoin, and the export menu stays available there.
     useEffect(() => {
-      if (sessionStarted) {
+      const onDisconnected = (reason?: DisconnectReason) => {
+        if (!isSessionEnd(reason) || transcriptExport.current.transcript.length === 0) return;
+        toastAlert({
+          title: t.session.callEnded,
+          description: (
+            <span className="flex flex-wrap items-center gap-2">
+              {t.session.downloadTranscript}
+              {(Object.keys(TRANSCRIPT_EXPORT_FORMATS) as TranscriptExportFormat[]).map(
+                (format) => (
+                  <button
+                    key={format}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleExportTranscript(format);
+                    }}
+                    className="underline"
+                  >
+                    {TRANSCRIPT_EXPORT_FORMATS[format].label}
+                  </button>
+                )
+              )}
+            </span>
+          ),
+        });
+      };
+      room.on(RoomEvent.Disconnected, onDisconnected);
+      return () => {
+        room.off(RoomEvent.Disconnected, onDisconnected);
+      };
+    }, [room, handleExportTranscript, t]);
+
+    // A new voice base brings in another agent, which leaves the room without one for a while
+    const replacingAgent = !!pendingPreferences && pendingPreferences.voiceBase !== voiceBase;
+
+    useEffect(() => {
+      // While reconnecting the agent is expected to be unavailable, so give it no deadline
+      if (sessionStarted && connectionStatus === 'connected' && !replacingAgent) {
         const timeout = setTimeout(() => {
           if (!isAgentAvailable(agentState)) {
             const reason =
               agentState === 'connecting'
-                ? 'Agent did not join the room. '
-                : 'Agent connected but did not complete initializing. ';
+                ? t.session.agentDidNotJoin
+                : t.session.agentDidNotInitialize;
 
             toastAlert({
-              title: 'Session ended',
+              title: t.session.sessionEnded,
               description: (
                 <p className="w-full">
                   {reason}
@@ -169,7 +316,7 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
                     href="https://docs.livekit.io/agents/start/voice-ai/"
                     className="whitespace-nowrap underline"
                   >
-                    See quickstart guide
+                    {t.session.quickstartGuide}
                   </a>
                   .
                 </p>
@@ -181,7 +328,7 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
 
         return () => clearTimeout(timeout);
       }
-    }, [agentState, sessionStarted, room]);
+    }, [agentState, sessionStarted, connectionStatus, replacingAgent, room, t]);
 
     const { supportsChatInput, supportsVideoInput, supportsScreenShare } = appConfig;
     const capabilities = { supportsChatInput, supportsVideoInput, supportsScreenShare };
@@ -189,94 +336,130 @@ export const SessionView = React.forwardRef<HTMLElement, SessionViewComponentPro
     return (
       <main
         ref={ref}
-        // you can consume `language` here for localized strings if needed
         {...mainProps}
         inert={disabled}
         className={cn(!chatOpen && 'max-h-svh overflow-hidden', mainProps.className)}
       >
-        <ChatMessageView
-          className={cn(
-            'mx-auto min-h-svh w-full max-w-2xl px-3 pt-32 pb-40 transition-[opacity,translate] duration-300 ease-out md:px-0 md:pt-36 md:pb-48',
-            chatOpen ? 'translate-y-0 opacity-100 delay-200' : 'translate-y-20 opacity-0'
-          )}
-        >
-          <div className="space-y-3 whitespace-pre-wrap">
-            <AnimatePresence>
-              {displayMessages.map((message: ReceivedChatMessage) => (
-                <motion.div
-                  key={message.id}
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  exit={{ opacity: 1, height: 'auto', translateY: 0.001 }}
-                  transition={{ duration: 0.5, ease: 'easeOut' }}
-                >
-                  <ChatEntry hideName entry={message} />
-                </motion.div>
-              ))}
-            </AnimatePresence>
-          </div>
-        </ChatMessageView>
-
-        <div className="bg-background fixed top-0 right-0 left-0 h-32 md:h-36">
-          {/* skrim */}
-          <div className="from-background absolute bottom-0 left-0 h-12 w-full translate-y-full bg-gradient-to-b to-transparent" />
-        </div>
-
-        <MediaTiles chatOpen={chatOpen} />
-
-        <div className="bg-background fixed right-0 bottom-0 left-0 z-50 px-3 pt-2 pb-3 md:px-12 md:pb-12">
-          <motion.div
-            key="control-bar"
-            initial={{ opacity: 0, translateY: '100%' }}
-            animate={{
-              opacity: sessionStarted ? 1 : 0,
-              translateY: sessionStarted ? '0%' : '100%',
-            }}
-            transition={{ duration: 0.3, delay: sessionStarted ? 0.5 : 0, ease: 'easeOut' }}
+        <DtcExplainProvider onExplain={(code) => handleSendMessage(t.chat.dtcExplain(code))}>
+          <ChatMessageView
+            className={cn(
+              'mx-auto min-h-svh w-full max-w-2xl px-3 pt-32 pb-40 transition-[opacity,translate] duration-300 ease-out md:px-0 md:pt-36 md:pb-48',
+              chatOpen ? 'translate-y-0 opacity-100 delay-200' : 'translate-y-20 opacity-0'
+            )}
           >
-            <div className="relative z-10 mx-auto w-full max-w-2xl">
-              {appConfig.isPreConnectBufferEnabled && (
-                <motion.div
-                  initial={{ opacity: 0 }}
-                  animate={{
-                    opacity: sessionStarted && messages.length === 0 ? 1 : 0,
-                    transition: {
-                      ease: 'easeIn',
-                      delay: messages.length > 0 ? 0 : 0.8,
-                      duration: messages.length > 0 ? 0.2 : 0.5,
-                    },
-                  }}
-                  aria-hidden={messages.length > 0}
-                  className={cn(
-                    'absolute inset-x-0 -top-12 text-center',
-                    sessionStarted && messages.length === 0 && 'pointer-events-none'
-                  )}
-                >
-                  <p className="animate-text-shimmer inline-block !bg-clip-text text-sm font-semibold text-transparent">
-                    {/* you can localize this using `language` */}
-                    Agent is listening, ask it a question
-                  </p>
-                </motion.div>
-              )}
-
-              <AgentControlBar
-                capabilities={capabilities}
-                onChatOpenChange={setChatOpen}
-                onTextOutputToggle={setTextOutputOpen}
-                onSendMessage={handleSendMessage}
-              />
+            <div className="space-y-3 whitespace-pre-wrap">
+              <AnimatePresence>
+                {chatEntries.map(({ entry, attachments: entryAttachments }) => (
+                  <motion.div
+                    key={entry.id}
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 1, height: 'auto', translateY: 0.001 }}
+                    transition={{ duration: 0.5, ease: 'easeOut' }}
+                  >
+                    <ChatEntry
+                      hideName
+                      entry={entry}
+                      attachments={entryAttachments}
+                      onCancelAttachment={cancelAttachment}
+                      interrupted={interruptedIds.has(entry.id)}
+                    />
+                  </motion.div>
+                ))}
+              </AnimatePresence>
             </div>
+          </ChatMessageView>
+
+          <div className="bg-background fixed top-0 right-0 left-0 h-32 md:h-36">
             {/* skrim */}
-            <div className="from-background border-background absolute top-0 left-0 h-12 w-full -translate-y-full bg-gradient-to-t to-transparent" />
-          </motion.div>
-        </div>
-
-        {/* Text Output Panel */}
-        <TextOutputPanel
-          isOpen={textOutputOpen}
-          onClose={() => setTextOutputOpen(false)}
-          textContent={getLatestTextContent()}
-        />
+            <div className="from-background absolute bottom-0 left-0 h-12 w-full translate-y-full bg-gradient-to-b to-transparent" />
+          </div>
+
+          <MediaTiles chatOpen={chatOpen} />
+
+          <SessionHeader vehicle={vehicle} onVehicleChange={onVehicleChange} />
+
+          <ConnectionBanner
+            status={connectionStatus}
+            queuedCount={queuedCount}
+            isRejoining={isRejoining}
+            onRejoin={onRejoin}
+            onLeave={onLeave}
+            // Below the session header, which would otherwise cover it
+            className="top-8 md:top-12"
+          />
+
+          <div className="bg-background fixed right-0 bottom-0 left-0 z-50 px-3 pt-2 pb-3 md:px-12 md:pb-12">
+            <motion.div
+              key="control-bar"
+              initial={{ opacity: 0, translateY: '100%' }}
+              animate={{
+                opacity: sessionStarted ? 1 : 0,
+                translateY: sessionStarted ? '0%' : '100%',
+              }}
+              transition={{ duration: 0.3, delay: sessionStarted ? 0.5 : 0, ease: 'easeOut' }}
+            >
+              <div className="relative z-10 mx-auto w-full max-w-2xl">
+                {appConfig.isPreConnectBufferEnabled && (
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{
+                      opacity: sessionStarted && messages.length === 0 ? 1 : 0,
+                      transition: {
+                        ease: 'easeIn',
+                        delay: messages.length > 0 ? 0 : 0.8,
+                        duration: messages.length > 0 ? 0.2 : 0.5,
+                      },
+                    }}
+                    aria-hidden={messages.length > 0}
+                    className={cn(
+                      'absolute inset-x-0 -top-12 text-center',
+                      sessionStarted && messages.length === 0 && 'pointer-events-none'
+                    )}
+                  >
+                    <p className="animate-text-shimmer inline-block !bg-clip-text text-sm font-semibold text-transparent">
+                      {t.session.agentListening}
+                    </p>
+                  </motion.div>
+                )}
+
+                <AgentControlBar
+                  capabilities={capabilities}
+                  onChatOpenChange={setChatOpen}
+                  textOutputOpen={textOutputOpen}
+                  onTextOutputToggle={handleTextOutputToggle}
+                  onSendMessage={handleSendMessage}
+                  onSendAttachments={(files, caption) =>
+                    handleSendAttachments(files, caption, t.attachments.sendError)
+                  }
+                  onSendSnapshot={(image, caption) =>
+                    handleSendAttachments([image], caption, t.snapshot.sendError)
+                  }
+                  onExportTranscript={handleExportTranscript}
+                  sessionPreferences={{ language, voiceBase }}
+                  pendingPreferences={pendingPreferences}
+                  onPreferencesChange={onPreferencesChange}
+                  checklistProgress={checklist.progress}
+                  onInterruptAgent={handleInterruptAgent}
+                />
+              </div>
+              {/* skrim */}
+              <div className="from-background border-background absolute top-0 left-0 h-12 w-full -translate-y-full bg-gradient-to-t to-transparent" />
+            </motion.div>
+          </div>
+
+          {/* Text Output Panel */}
+          <TextOutputPanel
+            isOpen={textOutputOpen}
+            onClose={() => handleTextOutputToggle(false)}
+            versions={reportVersions}
+            sessionMetadata={{ roomName: room.name, language, vehicle }}
+            checklist={checklist}
+            focus={reportFocus}
+          />
+
+          <AgentImageDialog image={agentImage} onClose={handleCloseAgentImage} />
+        </DtcExplainProvider>
       </main>
     );
   }
@@ -0,0 +1,172 @@
+'use client';
+
+import { cva } from 'class-variance-authority';
+import { useTranslation } from '@/components/i18n-provider';
+import type { FuelType, VehicleProfile } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { FUEL_TYPES, invalidVehicleField, withVin } from '@/lib/vehicle-profile';
+import { decodeVin, validateVin } from '@/lib/vin';
+
+const fieldVariants = cva(
+  'w-full rounded-lg border px-3 py-2 text-sm transition-colors focus:outline-none aria-invalid:border-red-500',
+  {
+    variants: {
+      appearance: {
+        default: 'border-input bg-background text-foreground focus:border-ring',
+        // Glass style used on the Welcome screen's dark gradient
+        welcome:
+          'border-white/20 bg-white/10 text-gray-100 placeholder:text-gray-400 focus:border-white/40 [&>option]:text-gray-900',
+      },
+    },
+    defaultVariants: {
+      appearance: 'default',
+    },
+  }
+);
+
+interface VehicleProfileFormProps {
+  value: VehicleProfile;
+  onChange: (value: VehicleProfile) => void;
+  appearance?: 'default' | 'welcome';
+  disabled?: boolean;
+  className?: string;
+}
+
+function parseInteger(value: string) {
+  const number = Number.parseInt(value, 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+export function VehicleProfileForm({
+  value,
+  onChange,
+  appearance = 'default',
+  disabled,
+  className,
+}: VehicleProfileFormProps) {
+  const { t } = useTranslation();
+  const field = fieldVariants({ appearance });
+  const label = cn(
+    'flex flex-col gap-1 text-left text-xs font-medium',
+    appearance === 'welcome' ? 'text-gray-300' : 'text-muted-foreground'
+  );
+
+  const invalidField = invalidVehicleField(value);
+  const vinError = value.vin ? validateVin(value.vin) : null;
+  const decodedVin = value.vin ? decodeVin(value.vin) : null;
+  const hint = cn(
+    'text-xs font-normal',
+    appearance === 'welcome' ? 'text-gray-400' : 'text-muted-foreground'
+  );
+
+  const set = <K extends keyof VehicleProfile>(key: K, fieldValue: VehicleProfile[K]) =>
+    onChange({ ...value, [key]: fieldValue });
+
+  return (
+    <fieldset disabled={disabled} className={cn('grid grid-cols-2 gap-3', className)}>
+      <label className={cn(label, 'col-span-2')}>
+        {t.vehicle.vin}
+        <input
+          type="text"
+          value={value.vin ?? ''}
+          aria-invalid={invalidField === 'vin'}
+          onChange={(e) => onChange(withVin(value, e.target.value))}
+          maxLength={17}
+          autoComplete="off"
+          spellCheck={false}
+          className={cn(field, 'font-mono uppercase')}
+        />
+        {vinError ? (
+          <span className="text-xs font-normal text-red-500">{t.vehicle.vinErrors[vinError]}</span>
+        ) : (
+          decodedVin && (
+            <span className={hint}>
+              {[decodedVin.manufacturer, decodedVin.country, decodedVin.modelYear]
+                .filter(Boolean)
+                .join(' · ')}
+            </span>
+          )
+        )}
+      </label>
+      <label className={label}>
+        {t.vehicle.make}
+        <input
+          type="text"
+          maxLength={64}
+          value={value.make ?? ''}
+          aria-invalid={invalidField === 'make'}
+          onChange={(e) => set('make', e.target.value || undefined)}
+          className={field}
+        />
+      </label>
+      <label className={label}>
+        {t.vehicle.model}
+        <input
+          type="text"
+          maxLength={64}
+          value={value.model ?? ''}
+          aria-invalid={invalidField === 'model'}
+          onChange={(e) => set('model', e.target.value || undefined)}
+          className={field}
+        />
+      </label>
+      <label className={label}>
+        {t.vehicle.year}
+        <input
+          type="number"
+          inputMode="numeric"
+          min={1900}
+          max={new Date().getFullYear() + 1}
+          value={value.year ?? ''}
+          aria-invalid={invalidField === 'year'}
+          onChange={(e) => set('year', parseInteger(e.target.value))}
+          className={field}
+        />
+      </label>
+      <label className={label}>
+        {t.vehicle.engine}
+        <input
+          type="text"
+          maxLength={64}
+          value={value.engine ?? ''}
+          aria-invalid={invalidField === 'engine'}
+          onChange={(e) => set('engine', e.target.value || undefined)}
+          className={field}
+        />
+      </label>
+      <label className={label}>
+        {t.vehicle.mileage}
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          value={value.mileage ?? ''}
+          aria-invalid={invalidField === 'mileage'}
+          onChange={(e) => set('mileage', parseInteger(e.target.value))}
+          className={field}
+        />
+      </label>
+      <label className={label}>
+        {t.vehicle.fuelType}
+        <select
+          value={value.fuelType ?? ''}
+          aria-invalid={invalidField === 'fuelType'}
+          onChange={(e) => set('fuelType', (e.target.value as FuelType) || undefined)}
+          className={field}
+        >
+          <option value="">—</option>
+          {FUEL_TYPES.map((fuelType) => (
+            <option key={fuelType} value={fuelType}>
+              {t.vehicle.fuelTypes[fuelType]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {invalidField && invalidField !== 'vin' && (
+        <p role="alert" className="col-span-2 text-left text-xs text-red-500">
+          {t.vehicle.invalid}
+        </p>
+      )}
+    </fieldset>
+  );
+}
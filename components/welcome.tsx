@@ -1,14 +1,23 @@
 import { useState } from 'react';
-import { Camera, ChevronDown, Mic } from 'lucide-react';
+import Link from 'next/link';
+import { Camera, Car, ChevronDown, History, Mic } from 'lucide-react';
+import { useTranslation } from '@/components/i18n-provider';
+import { VehicleProfileForm } from '@/components/vehicle-profile-form';
+import type { Language, VoiceBase } from '@/hooks/useConnectionDetails';
+import { LANGUAGE_LABELS } from '@/lib/i18n';
+import type { VehicleProfile } from '@/lib/types';
+import { invalidVehicleField, isVehicleProfileEmpty, vehicleSummary } from '@/lib/vehicle-profile';
 
 interface WelcomeProps {
   disabled: boolean;
   startButtonText: string;
   onStartCall: () => void;
-  language: 'en' | 'kn' | 'hi' | 'ta' | null; // allow null
-  onLanguageChange: (lang: 'en' | 'kn' | 'hi' | 'ta') => void;
-  voiceBase: 'Voice Assistant' | 'Live Assistant';
-  onVoiceBaseChange: (base: 'Voice Assistant' | 'Live Assistant') => void;
+  language: Language | null; // allow null
+  onLanguageChange: (lang: Language) => void;
+  voiceBase: VoiceBase;
+  onVoiceBaseChange: (base: VoiceBase) => void;
+  vehicle: VehicleProfile;
+  onVehicleChange: (vehicle: VehicleProfile) => void;
 }
 
 export const Welcome = ({
@@ -18,16 +27,19 @@ export const Welcome = ({
   onLanguageChange,
   voiceBase,
   onVoiceBaseChange,
+  vehicle,
+  onVehicleChange,
   ref,
 }: React.ComponentProps<'div'> & WelcomeProps) => {
   const [isLanguageDropdownOpen, setIsLanguageDropdownOpen] = useState(false);
+  const [isVehicleOpen, setIsVehicleOpen] = useState(false);
+  const { t, locale } = useTranslation();
+  const isVehicleInvalid = invalidVehicleField(vehicle) !== null;
 
-  const languages = [
-    { code: 'en', label: 'English' },
-    { code: 'kn', label: 'ಕನ್ನಡ' },
-    { code: 'hi', label: 'हिंदी' },
-    { code: 'ta', label: 'தமிழ்' },
-  ];
+  const languages = (Object.keys(LANGUAGE_LABELS) as Language[]).map((code) => ({
+    code,
+    label: LANGUAGE_LABELS[code],
+  }));
 
   const selectedLang = languages.find((l) => l.code === language);
 
@@ -35,7 +47,7 @@ export const Welcome = ({
     <div
       ref={ref}
       inert={disabled}
-      className="fixed inset-0 z-10 mx-auto flex h-svh flex-col items-center justify-center bg-gradient-to-br from-purple-900 via-blue-900 to-slate-900 text-center"
+      className="fixed inset-0 z-10 mx-auto flex h-svh flex-col items-center justify-center-safe overflow-y-auto bg-gradient-to-br from-purple-900 via-blue-900 to-slate-900 py-8 text-center"
     >
       {/* Background ambient glow */}
       <div className="absolute inset-0 bg-gradient-to-r from-blue-500/10 via-purple-500/10 to-cyan-500/10 blur-3xl"></div>
@@ -77,13 +89,7 @@ export const Welcome = ({
         </div>
 
         <h1 className="mb-12 text-lg font-medium text-gray-200 drop-shadow-sm">
-          {language === 'kn'
-            ? 'ಮೆಕ್ಯಾನಿಕ್‌ನ ವಿಶ್ವಾಸಾರ್ಹ ಸಹ-ಪೈಲಟ್'
-            : language === 'hi'
-              ? 'मैकेनिक का विश्वसनीय सह-पायलट'
-              : language === 'ta'
-                ? 'மேக்கானிக்கிற்கான நம்பத்தகுந்த துணை விமானி'
-                : "Mechanic's Trusted Co-Pilot"}
+          {t.welcome.tagline}
         </h1>
 
         {/* Main Content */}
@@ -95,7 +101,7 @@ export const Welcome = ({
               className="flex w-full items-center justify-between rounded-lg border border-white/20 bg-white/10 px-4 py-4 text-left font-medium text-gray-200 shadow-lg backdrop-blur-md transition-all duration-200 hover:bg-white/15"
               disabled={disabled}
             >
-              {selectedLang ? selectedLang.label : 'Select Language'}
+              {selectedLang ? selectedLang.label : t.welcome.selectLanguage}
               <ChevronDown
                 className={`h-5 w-5 transition-transform duration-200 ${
                   isLanguageDropdownOpen ? 'rotate-180' : ''
@@ -109,7 +115,7 @@ export const Welcome = ({
                   <button
                     key={lang.code}
                     onClick={() => {
-                      onLanguageChange(lang.code as 'en' | 'kn' | 'hi' | 'ta');
+                      onLanguageChange(lang.code);
                       setIsLanguageDropdownOpen(false);
                     }}
                     className="w-full px-4 py-3 text-left text-gray-600 transition-colors first:rounded-t-lg last:rounded-b-lg hover:bg-gray-50"
@@ -132,13 +138,7 @@ export const Welcome = ({
                   : 'text-gray-600 hover:text-gray-800'
               } ${!language ? 'cursor-not-allowed' : ''}`}
             >
-              {language === 'kn'
-                ? 'ಧ್ವನಿ ಸಹಾಯಕ'
-                : language === 'hi'
-                  ? 'ध्वनि सहायक'
-                  : language === 'ta'
-                    ? 'குரல் உதவியாளர்'
-                    : 'VOICE ASSISTANT'}
+              {t.welcome.voiceAssistant}
             </button>
             <button
               onClick={() => onVoiceBaseChange('Live Assistant')}
@@ -149,20 +149,50 @@ export const Welcome = ({
                   : 'text-gray-600 hover:text-gray-800'
               } ${!language ? 'cursor-not-allowed' : ''}`}
             >
-              {language === 'kn'
-                ? 'ಲೈವ್ ಸಹಾಯಕ'
-                : language === 'hi'
-                  ? 'लाइव सहायक'
-                  : language === 'ta'
-                    ? 'நேரடி உதவியாளர்'
-                    : 'LIVE ASSISTANT'}
+              {t.welcome.liveAssistant}
             </button>
           </div>
 
+          {/* Vehicle Profile */}
+          <div className="rounded-lg border border-white/20 bg-white/10 shadow-lg backdrop-blur-md">
+            <button
+              onClick={() => setIsVehicleOpen(!isVehicleOpen)}
+              aria-expanded={isVehicleOpen}
+              className="flex w-full items-center gap-3 px-4 py-3 text-left text-gray-200"
+            >
+              <Car className="h-5 w-5 shrink-0" />
+              <span className="flex min-w-0 flex-1 flex-col">
+                <span className="font-medium">{t.vehicle.add}</span>
+                <span className="truncate text-xs text-gray-400">
+                  {isVehicleProfileEmpty(vehicle)
+                    ? t.vehicle.optional
+                    : vehicleSummary(vehicle, {
+                        locale,
+                        fuelLabel: (fuelType) => t.vehicle.fuelTypes[fuelType],
+                      })}
+                </span>
+              </span>
+              <ChevronDown
+                className={`h-5 w-5 shrink-0 transition-transform duration-200 ${
+                  isVehicleOpen ? 'rotate-180' : ''
+                }`}
+              />
+            </button>
+            {isVehicleOpen && (
+              <VehicleProfileForm
+                value={vehicle}
+                onChange={onVehicleChange}
+                appearance="welcome"
+                disabled={disabled}
+                className="border-t border-white/20 p-4"
+              />
+            )}
+          </div>
+
           {/* Start Call Button */}
           <button
             onClick={onStartCall}
-            disabled={!language || disabled}
+            disabled={!language || disabled || isVehicleInvalid}
             className="flex w-full transform items-center justify-center space-x-3 rounded-lg bg-gradient-to-r from-purple-400 to-indigo-500 px-6 py-4 text-lg font-semibold tracking-wider text-white shadow-lg transition-all duration-200 hover:scale-105 hover:from-purple-500 hover:to-indigo-600 disabled:transform-none disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:from-purple-400"
           >
             {voiceBase === 'Voice Assistant' ? (
@@ -170,16 +200,16 @@ export const Welcome = ({
             ) : (
               <Camera className="h-5 w-5" />
             )}
-            <span>
-              {language === 'kn'
-                ? 'ಕರೆ ಪ್ರಾರಂಭಿಸಿ'
-                : language === 'hi'
-                  ? 'कॉल शुरू करें'
-                  : language === 'ta'
-                    ? 'அழைப்பை தொடங்குக'
-                    : 'Start Call'}
-            </span>
+            <span>{t.welcome.startCall}</span>
           </button>
+
+          <Link
+            href="/sessions"
+            className="inline-flex items-center gap-2 text-sm text-gray-300 transition-colors hover:text-white"
+          >
+            <History className="h-4 w-4" />
+            {t.welcome.pastSessions}
+          </Link>
         </div>
       </div>
     </div>
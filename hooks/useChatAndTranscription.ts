@@ -1,4 +1,5 @@
-import { useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { RoomEvent } from 'livekit-client';
 import {
   type ReceivedChatMessage,
   type TextStreamData,
@@ -6,6 +7,7 @@ import {
   useRoomContext,
   useTranscriptions,
 } from '@livekit/components-react';
+import type { TranscriptEntry } from '@/lib/types';
 import { transcriptionToChatMessage } from '@/lib/utils';
 
 export default function useChatAndTranscription() {
@@ -13,6 +15,44 @@ export default function useChatAndTranscription() {
   const chat = useChat();
   const room = useRoomContext();
 
+  // Caption timing is relative to when the room connected
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+  // Last time each transcription stream's text changed, which is where its caption cue ends
+  const [transcriptionUpdatedAt, setTranscriptionUpdatedAt] = useState<
+    ReadonlyMap<string, { text: string; at: number }>
+  >(new Map());
+  // Agent turns the technician stopped before they were finished
+  const [interruptedIds, setInterruptedIds] = useState<ReadonlySet<string>>(new Set());
+
+  const markInterrupted = useCallback((id: string) => {
+    setInterruptedIds((prev) => new Set(prev).add(id));
+  }, []);
+
+  useEffect(() => {
+    const onConnected = () => {
+      setSessionStartedAt(Date.now());
+      setTranscriptionUpdatedAt(new Map());
+    };
+    room.on(RoomEvent.Connected, onConnected);
+    return () => {
+      room.off(RoomEvent.Connected, onConnected);
+    };
+  }, [room]);
+
+  // Recorded as updates arrive rather than while rendering, which React may repeat at any time
+  useEffect(() => {
+    setTranscriptionUpdatedAt((prev) => {
+      const changed = transcriptions.filter(
+        ({ text, streamInfo }) => prev.get(streamInfo.id)?.text !== text
+      );
+      if (changed.length === 0) return prev;
+      const now = Date.now();
+      const next = new Map(prev);
+      for (const { text, streamInfo } of changed) next.set(streamInfo.id, { text, at: now });
+      return next;
+    });
+  }, [transcriptions]);
+
   const mergedTranscriptions = useMemo(() => {
     const merged: Array<ReceivedChatMessage> = [
       ...transcriptions.map((transcription) => transcriptionToChatMessage(transcription, room)),
@@ -21,5 +61,71 @@ export default function useChatAndTranscription() {
     return merged.sort((a, b) => a.timestamp - b.timestamp);
   }, [transcriptions, chat.chatMessages, room]);
 
-  return { messages: mergedTranscriptions, send: chat.send };
+  const transcript = useMemo(() => {
+    const localIdentity = room.localParticipant.identity;
+
+    const segments = [
+      ...transcriptions.map(({ text, participantInfo, streamInfo }) => ({
+        id: streamInfo.id,
+        text,
+        identity: participantInfo.identity,
+        firstReceivedTime: streamInfo.timestamp,
+        // Until its update has been recorded, a stream has only just started
+        lastReceivedTime: transcriptionUpdatedAt.get(streamInfo.id)?.at ?? streamInfo.timestamp,
+        final: streamInfo.attributes?.['lk.transcription_final'] !== 'false',
+        source: 'transcription' as const,
+      })),
+      ...chat.chatMessages.map((message) => ({
+        id: message.id,
+        text: message.message,
+        identity: message.from?.identity,
+        firstReceivedTime: message.timestamp,
+        lastReceivedTime: message.editTimestamp ?? message.timestamp,
+        final: true,
+        source: 'chat' as const,
+      })),
+    ].sort((a, b) => a.firstReceivedTime - b.firstReceivedTime);
+
+    const startedAt = sessionStartedAt ?? segments[0]?.firstReceivedTime ?? 0;
+
+    return segments.map(({ identity, ...segment }): TranscriptEntry => {
+      const participant =
+        identity === localIdentity
+          ? room.localParticipant
+          : room.remoteParticipants.get(identity ?? '');
+      const receivedAtMediaTimestamp = Math.max(0, segment.firstReceivedTime - startedAt);
+      return {
+        ...segment,
+        role: identity === localIdentity ? 'user' : 'assistant',
+        // Text streams carry neither a per-segment language nor media timing
+        language: '',
+        startTime: 0,
+        endTime: 0,
+        receivedAtMediaTimestamp,
+        lastReceivedAtMediaTimestamp: Math.max(
+          receivedAtMediaTimestamp,
+          segment.lastReceivedTime - startedAt
+        ),
+        receivedAt: segment.firstReceivedTime,
+        participantIdentity: identity,
+        participantName: participant?.name || identity,
+        interrupted: interruptedIds.has(segment.id) || undefined,
+      };
+    });
+  }, [
+    transcriptions,
+    chat.chatMessages,
+    room,
+    interruptedIds,
+    sessionStartedAt,
+    transcriptionUpdatedAt,
+  ]);
+
+  return {
+    messages: mergedTranscriptions,
+    transcript,
+    send: chat.send,
+    interruptedIds,
+    markInterrupted,
+  };
 }
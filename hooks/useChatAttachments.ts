@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ByteStreamHandler } from 'livekit-client';
+import { useRoomContext } from '@livekit/components-react';
+import { CHAT_ATTACHMENT_TOPIC } from '@/lib/agent-protocol';
+import { attachmentMimeType } from '@/lib/attachments';
+import type { ChatAttachment } from '@/lib/types';
+
+// Progress is only re-rendered in steps this large to keep long transfers cheap
+const PROGRESS_STEP = 0.01;
+
+class AttachmentCancelledError extends Error {
+  constructor() {
+    super('The upload was cancelled');
+    this.name = 'AttachmentCancelledError';
+  }
+}
+
+export default function useChatAttachments() {
+  const room = useRoomContext();
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+  const uploads = useRef(new Map<string, AbortController>());
+
+  const add = useCallback((attachment: ChatAttachment) => {
+    setAttachments((prev) => [...prev, attachment]);
+  }, []);
+
+  const update = useCallback((id: string, change: Partial<ChatAttachment>) => {
+    setAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, ...change } : a)));
+  }, []);
+
+  const progressReporter = useCallback(
+    (id: string) => {
+      let reported = 0;
+      return (progress: number) => {
+        if (progress - reported < PROGRESS_STEP && progress < 1) return;
+        reported = progress;
+        update(id, { progress });
+      };
+    },
+    [update]
+  );
+
+  useEffect(() => {
+    const handleAttachment: ByteStreamHandler = async (reader, participantInfo) => {
+      const { id, name, mimeType, size = 0, timestamp, attributes } = reader.info;
+      add({
+        id,
+        name,
+        mimeType,
+        size,
+        caption: attributes?.caption,
+        timestamp,
+        participantIdentity: participantInfo.identity,
+        isLocal: false,
+        status: 'receiving',
+        progress: 0,
+      });
+      const reportProgress = progressReporter(id);
+      reader.onProgress = (progress) => {
+        if (progress !== undefined) reportProgress(progress);
+      };
+
+      try {
+        const chunks = await reader.readAll();
+        const file = new File(chunks as BlobPart[], name, { type: mimeType });
+        const complete = !size || file.size >= size;
+        update(id, complete ? { status: 'done', progress: 1, file } : { status: 'cancelled' });
+      } catch (error) {
+        console.error('Failed to receive chat attachment:', error);
+        update(id, { status: 'failed' });
+      }
+    };
+
+    room.registerByteStreamHandler(CHAT_ATTACHMENT_TOPIC, handleAttachment);
+    return () => {
+      room.unregisterByteStreamHandler(CHAT_ATTACHMENT_TOPIC);
+    };
+  }, [room, add, update, progressReporter]);
+
+  const sendFile = useCallback(
+    async (file: File, caption?: string) => {
+      const id = crypto.randomUUID();
+      const controller = new AbortController();
+      uploads.current.set(id, controller);
+      add({
+        id,
+        name: file.name,
+        mimeType: attachmentMimeType(file),
+        size: file.size,
+        caption,
+        timestamp: Date.now(),
+        participantIdentity: room.localParticipant.identity,
+        isLocal: true,
+        status: 'sending',
+        progress: 0,
+        file,
+      });
+
+      const reportProgress = progressReporter(id);
+      const reader = file.stream().getReader();
+      let writer;
+      try {
+        writer = await room.localParticipant.streamBytes({
+          streamId: id,
+          name: file.name,
+          mimeType: attachmentMimeType(file),
+          totalSize: file.size,
+          topic: CHAT_ATTACHMENT_TOPIC,
+          attributes: caption ? { caption } : undefined,
+        });
+        let sent = 0;
+        while (true) {
+          if (controller.signal.aborted) throw new AttachmentCancelledError();
+          const { done, value } = await reader.read();
+          if (done) break;
+          await writer.write(value);
+          sent += value.byteLength;
+          reportProgress(file.size ? sent / file.size : 1);
+        }
+        update(id, { status: 'done', progress: 1 });
+      } catch (error) {
+        if (error instanceof AttachmentCancelledError) {
+          update(id, { status: 'cancelled' });
+          return;
+        }
+        update(id, { status: 'failed' });
+        throw error;
+      } finally {
+        uploads.current.delete(id);
+        reader.releaseLock();
+        await writer?.close().catch(() => {});
+      }
+    },
+    [room, add, update, progressReporter]
+  );
+
+  /**
+   * Upload files to the agent, each as its own byte stream; the caption travels with the first.
+   * Resolves once every upload has finished or been cancelled, and rejects if any fails.
+   */
+  const sendAttachments = useCallback(
+    async (files: File[], caption?: string) => {
+      await Promise.all(
+        files.map((file, index) => sendFile(file, index === 0 ? caption : undefined))
+      );
+    },
+    [sendFile]
+  );
+
+  const cancelAttachment = useCallback((id: string) => {
+    uploads.current.get(id)?.abort();
+  }, []);
+
+  return { attachments, sendAttachments, cancelAttachment };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { RpcError, type RpcInvocationData } from 'livekit-client';
+import { useRoomContext } from '@livekit/components-react';
+import {
+  type ClientRpcMethod,
+  type ClientRpcPayloads,
+  parseClientRpcPayload,
+} from '@/lib/client-rpc';
+
+type ClientRpcResponse = object | void;
+
+export type ClientRpcHandlers = {
+  [M in ClientRpcMethod]?: (
+    payload: ClientRpcPayloads[M]
+  ) => ClientRpcResponse | Promise<ClientRpcResponse>;
+};
+
+/**
+ * Handle the agent's calls to client RPC methods, as described in `lib/client-rpc.ts`. Payloads
+ * are validated before a handler sees them, and whatever a handler returns is sent back as JSON.
+ * A handler that throws fails the call with its message. Each method can only be handled by one
+ * mounted component at a time.
+ */
+export default function useClientRpc(handlers: ClientRpcHandlers) {
+  const room = useRoomContext();
+  // Methods are registered once; calls go to the handlers of the latest render
+  const latestHandlers = useRef(handlers);
+  latestHandlers.current = handlers;
+  const methods = (Object.keys(handlers) as ClientRpcMethod[]).sort().join(' ');
+
+  useEffect(() => {
+    const registered = methods.split(' ').filter(Boolean) as ClientRpcMethod[];
+    for (const method of registered) {
+      room.registerRpcMethod(method, async ({ callerIdentity, payload }: RpcInvocationData) => {
+        if (!room.remoteParticipants.get(callerIdentity)?.isAgent) {
+          throw new RpcError(
+            RpcError.ErrorCode.APPLICATION_ERROR,
+            'Only the agent can call client methods'
+          );
+        }
+        const handler = latestHandlers.current[method] as
+          | ((payload: ClientRpcPayloads[ClientRpcMethod]) => Promise<ClientRpcResponse>)
+          | undefined;
+        if (!handler) throw RpcError.builtIn('UNSUPPORTED_METHOD');
+
+        const parsed = parseClientRpcPayload(method, payload);
+        try {
+          return JSON.stringify((await handler(parsed)) ?? {});
+        } catch (error) {
+          // Other errors reach the agent without their message
+          const { message } = error instanceof Error ? error : new Error(String(error));
+          throw new RpcError(RpcError.ErrorCode.APPLICATION_ERROR, message);
+        }
+      });
+    }
+    return () => registered.forEach((method) => room.unregisterRpcMethod(method));
+  }, [room, methods]);
+}
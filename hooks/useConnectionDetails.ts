@@ -1,24 +1,48 @@
 import { useCallback } from 'react';
 import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import { MOCK_AGENT_ENABLED } from '@/lib/mock-agent-config';
+import type { VehicleProfile } from '@/lib/types';
+import { isVehicleProfileEmpty } from '@/lib/vehicle-profile';
+
+export const LANGUAGES = ['en', 'kn', 'hi', 'ta'] as const;
+export const VOICE_BASES = ['Voice Assistant', 'Live Assistant'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+export type VoiceBase = (typeof VOICE_BASES)[number];
 
-export type Language = 'en' | 'kn' | 'hi' | 'ta';
-export type VoiceBase = 'Voice Assistant' | 'Live Assistant';
 export default function useConnectionDetails() {
-  // Pass the selected language to the token endpoint
+  // Pass the selected language and vehicle to the token endpoint. Passing the current participant token
+  // renews it for the same room and identity instead of starting a new session, and with
+  // `switchAgent` also has the agent for `voiceBase` dispatched in place of the current one.
   const fetchConnectionDetails = useCallback(
     async (
       language: Language = 'en',
-      voiceBase: VoiceBase = 'Voice Assistant'
+      voiceBase: VoiceBase = 'Voice Assistant',
+      vehicle: VehicleProfile = {},
+      currentToken?: string,
+      { switchAgent = false }: { switchAgent?: boolean } = {}
     ): Promise<ConnectionDetails> => {
+      if (MOCK_AGENT_ENABLED) {
+        const { mockConnectionDetails } = await import('@/lib/mock-agent');
+        return mockConnectionDetails();
+      }
+
       const url = new URL(
         process.env.NEXT_PUBLIC_CONN_DETAILS_ENDPOINT ?? '/api/connection-details',
         window.location.origin
       );
       url.searchParams.set('language', language);
       url.searchParams.set('voiceBase', voiceBase);
+      if (!isVehicleProfileEmpty(vehicle)) {
+        url.searchParams.set('vehicle', JSON.stringify(vehicle));
+      }
 
       try {
-        const res = await fetch(url.toString(), { method: 'GET', cache: 'no-store' });
+        const res = await fetch(url.toString(), {
+          method: switchAgent ? 'POST' : 'GET',
+          cache: 'no-store',
+          headers: currentToken ? { Authorization: `Bearer ${currentToken}` } : undefined,
+        });
         if (!res.ok) throw new Error(await res.text());
         return (await res.json()) as ConnectionDetails;
       } catch (error) {
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TextStreamHandler } from 'livekit-client';
+import { useRoomContext } from '@livekit/components-react';
+import { DIAGNOSTIC_REPORT_TOPIC } from '@/lib/agent-protocol';
+import type { DiagnosticReportVersion } from '@/lib/types';
+
+export interface UseDiagnosticReportOptions {
+  /** Reports are per session; the room is reused, so they are cleared when a session starts. */
+  sessionStarted?: boolean;
+  /** Opt-in: also poll the HTTP diagnostic endpoint until a report arrives over the stream. */
+  pollFallback?: boolean;
+  /** Changing this value (e.g. the latest agent message id) schedules a fallback fetch. */
+  pollTrigger?: string;
+  /** Participant token from /api/connection-details, used to scope the fallback to this room. */
+  participantToken?: string;
+}
+
+export default function useDiagnosticReport({
+  sessionStarted = false,
+  pollFallback = false,
+  pollTrigger,
+  participantToken,
+}: UseDiagnosticReportOptions = {}) {
+  const room = useRoomContext();
+  const [versions, setVersions] = useState<DiagnosticReportVersion[]>([]);
+  // Once the agent pushes a report over the stream the HTTP fallback is no longer needed
+  const receivedFromStream = useRef(false);
+
+  useEffect(() => {
+    if (!sessionStarted) return;
+    setVersions([]);
+    receivedFromStream.current = false;
+  }, [sessionStarted]);
+
+  // Every distinct report is kept so earlier diagnoses survive a revision by the agent
+  const addVersion = useCallback((raw: string) => {
+    setVersions((prev) => {
+      if (prev.at(-1)?.raw === raw) return prev;
+      return [...prev, { version: prev.length + 1, receivedAt: Date.now(), raw }];
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleReport: TextStreamHandler = async (reader, participantInfo) => {
+      if (participantInfo.identity === room.localParticipant.identity) return;
+      try {
+        const text = await reader.readAll();
+        if (text) {
+          receivedFromStream.current = true;
+          addVersion(text);
+        }
+      } catch (error) {
+        console.error('Failed to read diagnostic report stream:', error);
+      }
+    };
+
+    room.registerTextStreamHandler(DIAGNOSTIC_REPORT_TOPIC, handleReport);
+    return () => {
+      room.unregisterTextStreamHandler(DIAGNOSTIC_REPORT_TOPIC);
+    };
+  }, [room, addVersion]);
+
+  const fetchReport = useCallback(async () => {
+    if (!participantToken || !room.name) return;
+
+    const url = new URL('/api/diagnostic-data', window.location.origin);
+    url.searchParams.set('roomName', room.name);
+    url.searchParams.set('identity', room.localParticipant.identity);
+
+    try {
+      const response = await fetch(url.toString(), {
+        cache: 'no-store',
+        headers: { Authorization: `Bearer ${participantToken}` },
+      });
+      if (!response.ok) {
+        console.warn('Diagnostic data request failed:', response.status, await response.text());
+        return;
+      }
+      const result = await response.json();
+      if (result.data && !receivedFromStream.current) {
+        addVersion(JSON.stringify(result.data));
+      }
+    } catch (error) {
+      console.error('Failed to fetch diagnostic data:', error);
+    }
+  }, [room, participantToken, addVersion]);
+
+  useEffect(() => {
+    if (!pollFallback || !pollTrigger || receivedFromStream.current) return;
+
+    // Give the backend a moment to store the report for the agent turn that just arrived
+    const timeoutId = setTimeout(fetchReport, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [pollFallback, pollTrigger, fetchReport]);
+
+  return { versions };
+}
@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { INTERRUPT_AGENT_RPC } from '@/lib/agent-protocol';
+
+const AGENT_ACK_TIMEOUT_MS = 5000;
+
+/** Stop the agent mid-answer, without talking over it or ending the call. */
+export default function useInterruptAgent() {
+  const room = useRoomContext();
+
+  /** Resolves once the agent has stopped, and throws if it does not confirm. */
+  const interrupt = useCallback(async () => {
+    const agent = Array.from(room.remoteParticipants.values()).find((p) => p.isAgent);
+    if (!agent) throw new Error('No agent in the room');
+
+    await room.localParticipant.performRpc({
+      destinationIdentity: agent.identity,
+      method: INTERRUPT_AGENT_RPC,
+      payload: '',
+      responseTimeout: AGENT_ACK_TIMEOUT_MS,
+    });
+  }, [room]);
+
+  return { interrupt };
+}
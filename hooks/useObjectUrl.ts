@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/** An object URL for `blob` that is revoked when the blob changes or the component unmounts. */
+export default function useObjectUrl(blob: Blob | null | undefined) {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
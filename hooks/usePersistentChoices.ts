@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { usePersistentUserChoices } from '@livekit/components-react';
+
+// Kept apart from `lk-user-choices`, which `usePersistentUserChoices` owns and rewrites
+const PUSH_TO_TALK_KEY = 'lk-push-to-talk';
+
+export interface UsePersistentChoicesOptions {
+  /** Keep changes to this page instead of saving them for later sessions. */
+  preventSave?: boolean;
+}
+
+function loadPushToTalk() {
+  try {
+    return localStorage.getItem(PUSH_TO_TALK_KEY) === 'true';
+  } catch (error) {
+    console.error('Failed to load the push-to-talk choice:', error);
+    return false;
+  }
+}
+
+/**
+ * `usePersistentUserChoices`, plus the push-to-talk choice, which is stored under a key of its
+ * own.
+ */
+export default function usePersistentChoices({ preventSave = false }: UsePersistentChoicesOptions) {
+  const choices = usePersistentUserChoices({ preventSave });
+  // Loaded after mount so the server-rendered markup matches the first client render
+  const [pushToTalk, setPushToTalk] = useState(false);
+
+  useEffect(() => {
+    setPushToTalk(loadPushToTalk());
+  }, []);
+
+  const savePushToTalk = useCallback(
+    (enabled: boolean) => {
+      setPushToTalk(enabled);
+      if (preventSave) return;
+      try {
+        localStorage.setItem(PUSH_TO_TALK_KEY, String(enabled));
+      } catch (error) {
+        console.error('Failed to save the push-to-talk choice:', error);
+      }
+    },
+    [preventSave]
+  );
+
+  return { ...choices, pushToTalk, savePushToTalk };
+}
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RoomEvent } from 'livekit-client';
+import { useLocalParticipant, useRoomContext, useVoiceAssistant } from '@livekit/components-react';
+import { END_TURN_RPC, START_TURN_RPC } from '@/lib/agent-protocol';
+
+function isTextInput(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+export interface UsePushToTalkOptions {
+  /** The persisted choice, from `usePersistentChoices`. */
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+}
+
+/**
+ * Push-to-talk for noisy workshops. While enabled the microphone stays published but muted, and
+ * is only unmuted while `startTalking` is held, e.g. by a button or the space bar, which is
+ * handled here. The agent is told when each turn starts and ends so it can interrupt itself and
+ * reply without waiting for end-of-speech detection.
+ */
+export default function usePushToTalk({ enabled, onEnabledChange }: UsePushToTalkOptions) {
+  const room = useRoomContext();
+  const { localParticipant, microphoneTrack, isMicrophoneEnabled } = useLocalParticipant();
+  const { agent } = useVoiceAssistant();
+  const [isTalking, setIsTalking] = useState(false);
+  // Key repeats and pointer events can both arrive before a re-render
+  const talking = useRef(false);
+
+  const signalAgent = useCallback(
+    (method: string) => {
+      if (!agent) return;
+      localParticipant
+        .performRpc({ destinationIdentity: agent.identity, method, payload: '' })
+        .catch((error) => console.error(`Failed to send ${method} to the agent:`, error));
+    },
+    [agent, localParticipant]
+  );
+
+  const startTalking = useCallback(async () => {
+    if (!enabled || !microphoneTrack || talking.current) return;
+    talking.current = true;
+    setIsTalking(true);
+    signalAgent(START_TURN_RPC);
+    try {
+      await localParticipant.setMicrophoneEnabled(true);
+    } catch (error) {
+      console.error('Failed to unmute the microphone:', error);
+      // End the turn so neither the button nor the agent waits on a release that changes nothing
+      talking.current = false;
+      setIsTalking(false);
+      signalAgent(END_TURN_RPC);
+    }
+  }, [enabled, microphoneTrack, localParticipant, signalAgent]);
+
+  const stopTalking = useCallback(async () => {
+    if (!talking.current) return;
+    talking.current = false;
+    setIsTalking(false);
+    try {
+      await localParticipant.setMicrophoneEnabled(false);
+    } catch (error) {
+      // Muting is retried below while the microphone is still enabled between turns
+      console.error('Failed to mute the microphone:', error);
+    }
+    signalAgent(END_TURN_RPC);
+  }, [localParticipant, signalAgent]);
+
+  const setEnabled = useCallback(
+    async (next: boolean) => {
+      onEnabledChange(next);
+      if (!next && microphoneTrack) {
+        talking.current = false;
+        setIsTalking(false);
+        try {
+          await localParticipant.setMicrophoneEnabled(true);
+        } catch (error) {
+          console.error('Failed to unmute the microphone:', error);
+        }
+      }
+    },
+    [onEnabledChange, microphoneTrack, localParticipant]
+  );
+
+  // The microphone is also enabled on connect and rejoin; keep it muted between turns
+  useEffect(() => {
+    if (enabled && !isTalking && isMicrophoneEnabled) {
+      localParticipant
+        .setMicrophoneEnabled(false)
+        .catch((error) => console.error('Failed to mute the microphone:', error));
+    }
+  }, [enabled, isTalking, isMicrophoneEnabled, localParticipant]);
+
+  useEffect(() => {
+    const onDisconnected = () => {
+      talking.current = false;
+      setIsTalking(false);
+    };
+    room.on(RoomEvent.Disconnected, onDisconnected);
+    return () => {
+      room.off(RoomEvent.Disconnected, onDisconnected);
+    };
+  }, [room]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || !microphoneTrack || isTextInput(event.target)) return;
+      event.preventDefault();
+      if (!event.repeat) startTalking();
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || !talking.current) return;
+      event.preventDefault();
+      stopTalking();
+    };
+    // A release outside the window would otherwise leave the microphone open
+    const onBlur = () => stopTalking();
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [enabled, microphoneTrack, startTalking, stopTalking]);
+
+  return { enabled, setEnabled, isTalking, startTalking, stopTalking };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ConnectionState } from 'livekit-client';
+import { useConnectionState } from '@livekit/components-react';
+
+/**
+ * Wraps a chat `send` so messages written while the connection is down are held and sent, in
+ * order, once the room is connected again. Held messages are dropped when the session ends, as
+ * the room is reused for the next one.
+ */
+export default function useQueuedSend(
+  send: (message: string) => Promise<unknown>,
+  sessionStarted: boolean
+) {
+  const connectionState = useConnectionState();
+  const isConnected = connectionState === ConnectionState.Connected;
+
+  const queue = useRef<string[]>([]);
+  const flushing = useRef(false);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  const flush = useCallback(async () => {
+    if (flushing.current) return;
+    flushing.current = true;
+    try {
+      while (queue.current.length > 0) {
+        await send(queue.current[0]);
+        queue.current.shift();
+        setQueuedCount(queue.current.length);
+      }
+    } catch (error) {
+      // Left queued so it is retried with the next message or reconnect
+      console.error('Failed to send queued chat message:', error);
+    } finally {
+      flushing.current = false;
+    }
+  }, [send]);
+
+  const queuedSend = useCallback(
+    async (message: string) => {
+      // Anything already queued goes first, so messages are never reordered
+      if (!isConnected || queue.current.length > 0) {
+        queue.current.push(message);
+        setQueuedCount(queue.current.length);
+        if (isConnected) await flush();
+        return;
+      }
+      await send(message);
+    },
+    [isConnected, send, flush]
+  );
+
+  useEffect(() => {
+    if (isConnected) flush();
+  }, [isConnected, flush]);
+
+  useEffect(() => {
+    if (sessionStarted) return;
+    queue.current = [];
+    setQueuedCount(0);
+  }, [sessionStarted]);
+
+  return { send: queuedSend, queuedCount };
+}
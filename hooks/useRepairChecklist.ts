@@ -0,0 +1,184 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { RoomEvent } from 'livekit-client';
+import { useRoomContext } from '@livekit/components-react';
+import { normalizeText } from '@/lib/diagnostic-report';
+
+/** Data-channel topic the agent receives repair checklist events on. */
+export const REPAIR_CHECKLIST_TOPIC = 'lk.repair_checklist';
+
+export interface ChecklistItemState {
+  /** Text of the step, so progress can carry over to a revised report. */
+  step?: string;
+  /** Epoch milliseconds at which the step was checked off. */
+  completedAt?: number;
+  note?: string;
+}
+
+/** Identifies a repair step by the report version it belongs to and its position there. */
+export interface ChecklistStepKey {
+  version: number;
+  index: number;
+  /** Text of the step, reported to the agent. */
+  step: string;
+}
+
+/** Sent to the agent whenever the technician checks, unchecks or annotates a step. */
+export interface RepairChecklistEvent {
+  type: 'step_completed' | 'step_reopened' | 'step_note';
+  step: string;
+  /** Position of the step in the latest report, or -1 if it belongs to an earlier one. */
+  index: number;
+  completed: number;
+  total: number;
+  completed_at?: string;
+  note?: string;
+}
+
+/** The latest report's version and repair steps, which progress is tracked against. */
+export interface LatestRepairSteps {
+  version: number;
+  steps: string[];
+}
+
+const storageKey = (roomName: string) => `repair-checklist:${roomName}`;
+
+const itemKey = (version: number, index: number) => `${version}:${index}`;
+
+function loadChecklist(roomName: string): Record<string, ChecklistItemState> {
+  try {
+    return JSON.parse(sessionStorage.getItem(storageKey(roomName)) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Progress of a revised report, taken over from the steps of the version before it that have the
+ * same text. Each earlier step is carried over once, so repeated steps stay apart.
+ */
+function carryOver(
+  items: Record<string, ChecklistItemState>,
+  { version, steps }: LatestRepairSteps
+): Record<string, ChecklistItemState> {
+  const earlier = Object.entries(items)
+    .filter(([key]) => key.startsWith(`${version - 1}:`))
+    .map(([, item]) => item);
+  const carried: Record<string, ChecklistItemState> = {};
+  steps.forEach((step, index) => {
+    const text = normalizeText(step);
+    const match = earlier.findIndex((item) => item.step && normalizeText(item.step) === text);
+    if (match === -1) return;
+    carried[itemKey(version, index)] = { ...earlier[match], step };
+    earlier.splice(match, 1);
+  });
+  return carried;
+}
+
+/**
+ * Checklist state for repair steps, keyed by report version and step position, so repeated steps
+ * are tracked apart. Progress carries over to revised reports, and the state is kept in session
+ * storage per room so it survives a rejoin.
+ */
+export default function useRepairChecklist(latest: LatestRepairSteps | null) {
+  const room = useRoomContext();
+  const [roomName, setRoomName] = useState(room.name);
+  const [items, setItems] = useState<Record<string, ChecklistItemState>>(() =>
+    room.name ? loadChecklist(room.name) : {}
+  );
+
+  useEffect(() => {
+    const onConnected = () => {
+      setRoomName(room.name);
+      setItems(loadChecklist(room.name));
+    };
+    room.on(RoomEvent.Connected, onConnected);
+    return () => {
+      room.off(RoomEvent.Connected, onConnected);
+    };
+  }, [room]);
+
+  const save = useCallback(
+    (next: Record<string, ChecklistItemState>) => {
+      setItems(next);
+      if (roomName) sessionStorage.setItem(storageKey(roomName), JSON.stringify(next));
+    },
+    [roomName]
+  );
+
+  useEffect(() => {
+    if (!latest || latest.version < 2) return;
+    const prefix = `${latest.version}:`;
+    if (Object.keys(items).some((key) => key.startsWith(prefix))) return;
+    const carried = carryOver(items, latest);
+    if (Object.keys(carried).length > 0) save({ ...items, ...carried });
+  }, [latest, items, save]);
+
+  const countCompleted = useCallback(
+    (state: Record<string, ChecklistItemState>) =>
+      latest
+        ? latest.steps.filter((_, index) => state[itemKey(latest.version, index)]?.completedAt)
+            .length
+        : 0,
+    [latest]
+  );
+
+  const progress = useMemo(
+    () => ({ completed: countCompleted(items), total: latest?.steps.length ?? 0 }),
+    [countCompleted, items, latest]
+  );
+
+  const update = useCallback(
+    (
+      { version, index, step }: ChecklistStepKey,
+      change: ChecklistItemState,
+      type: RepairChecklistEvent['type']
+    ) => {
+      const key = itemKey(version, index);
+      const item = { ...items[key], ...change, step };
+      const next = { ...items, [key]: item };
+      save(next);
+
+      const event: RepairChecklistEvent = {
+        type,
+        step,
+        index: version === latest?.version ? index : -1,
+        completed: countCompleted(next),
+        total: latest?.steps.length ?? 0,
+        completed_at: item.completedAt ? new Date(item.completedAt).toISOString() : undefined,
+        note: item.note || undefined,
+      };
+      room.localParticipant
+        .publishData(new TextEncoder().encode(JSON.stringify(event)), {
+          reliable: true,
+          topic: REPAIR_CHECKLIST_TOPIC,
+        })
+        .catch((error) => console.warn('Failed to send repair checklist event:', error));
+    },
+    [room, latest, items, save, countCompleted]
+  );
+
+  const toggleStep = useCallback(
+    (key: ChecklistStepKey, completed: boolean) =>
+      update(
+        key,
+        { completedAt: completed ? Date.now() : undefined },
+        completed ? 'step_completed' : 'step_reopened'
+      ),
+    [update]
+  );
+
+  const setNote = useCallback(
+    (key: ChecklistStepKey, note: string) => update(key, { note }, 'step_note'),
+    [update]
+  );
+
+  const getItem = useCallback(
+    ({ version, index }: Omit<ChecklistStepKey, 'step'>): ChecklistItemState =>
+      items[itemKey(version, index)] ?? {},
+    [items]
+  );
+
+  return { getItem, toggleStep, setNote, progress };
+}
+
+export type RepairChecklist = ReturnType<typeof useRepairChecklist>;
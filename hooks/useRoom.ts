@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+import { Room } from 'livekit-client';
+import { MOCK_AGENT_ENABLED } from '@/lib/mock-agent-config';
+
+/**
+ * The room the app connects to, created once. With the mock agent enabled it is a `MockRoom`,
+ * loaded on demand so the mock stays out of other builds, and `null` until it has loaded.
+ */
+export default function useRoom() {
+  const [room, setRoom] = useState(() => (MOCK_AGENT_ENABLED ? null : new Room()));
+
+  useEffect(() => {
+    if (!MOCK_AGENT_ENABLED) return;
+    let cancelled = false;
+    import('@/lib/mock-agent')
+      .then(({ createMockRoom }) => {
+        if (!cancelled) setRoom(createMockRoom());
+      })
+      .catch((error) => console.error('Failed to load the mock agent:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return room;
+}
@@ -0,0 +1,146 @@
+import { useCallback, useState } from 'react';
+import { type RemoteParticipant, type Room, RoomEvent } from 'livekit-client';
+import type { Language, VoiceBase } from '@/hooks/useConnectionDetails';
+import { SET_SESSION_PREFERENCES_RPC } from '@/lib/agent-protocol';
+import { MOCK_AGENT_ENABLED } from '@/lib/mock-agent-config';
+import type { VehicleProfile } from '@/lib/types';
+import { isVehicleProfileEmpty } from '@/lib/vehicle-profile';
+
+const AGENT_ACK_TIMEOUT_MS = 10_000;
+// A newly dispatched agent has to be assigned a worker and start up before it joins
+const AGENT_JOIN_TIMEOUT_MS = 30_000;
+
+export interface SessionPreferences {
+  language: Language;
+  voiceBase: VoiceBase;
+}
+
+/** Participant metadata the agent reads; mirrors what the token endpoint puts in the token. */
+function participantMetadata(preferences: SessionPreferences, vehicle: VehicleProfile) {
+  return JSON.stringify({
+    ...preferences,
+    vehicle: isVehicleProfileEmpty(vehicle) ? undefined : vehicle,
+  });
+}
+
+/** Resolves once an agent joins `room`, and rejects if none does in time or `signal` aborts. */
+function waitForAgent(room: Room, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timeoutId);
+      room.off(RoomEvent.ParticipantConnected, onParticipantConnected);
+      signal.removeEventListener('abort', onAbort);
+    };
+    const onParticipantConnected = (participant: RemoteParticipant) => {
+      if (!participant.isAgent) return;
+      cleanup();
+      resolve();
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      cleanup();
+      reject(new Error('The new agent did not join the room'));
+    }, AGENT_JOIN_TIMEOUT_MS);
+
+    room.on(RoomEvent.ParticipantConnected, onParticipantConnected);
+    signal.addEventListener('abort', onAbort);
+  });
+}
+
+export interface UseSessionPreferencesOptions {
+  /**
+   * Have the server dispatch the agent for `preferences.voiceBase` in place of the one in the
+   * room. Each voice base is served by its own agent, so it cannot switch by itself.
+   */
+  switchAgent: (preferences: SessionPreferences, vehicle: VehicleProfile) => Promise<void>;
+}
+
+export default function useSessionPreferences(
+  room: Room,
+  { switchAgent }: UseSessionPreferencesOptions
+) {
+  const [language, setLanguage] = useState<Language | null>(null);
+  const [voiceBase, setVoiceBase] = useState<VoiceBase>('Voice Assistant');
+  const [vehicle, setVehicle] = useState<VehicleProfile>({});
+  // Preferences sent to the agent that it has not acknowledged yet
+  const [pendingPreferences, setPendingPreferences] = useState<SessionPreferences | null>(null);
+
+  /**
+   * Switch preferences in a connected session. The UI keeps the current preferences until the
+   * agent acknowledges, and throws if it does not. A new language is acknowledged by the agent
+   * in the room; a new voice base by the agent dispatched to replace it joining the room.
+   */
+  const switchPreferences = useCallback(
+    async (next: SessionPreferences) => {
+      const agent = Array.from(room.remoteParticipants.values()).find((p) => p.isAgent);
+      if (!agent) throw new Error('No agent in the room');
+      // The mock agent stands in for every voice base, so it is only told like the others
+      const replaceAgent = next.voiceBase !== voiceBase && !MOCK_AGENT_ENABLED;
+
+      setPendingPreferences(next);
+      const abortWait = new AbortController();
+      let agentReplaced = false;
+      try {
+        // Metadata mirrors what the token carried at join, so it stays accurate for the agent
+        await room.localParticipant.setMetadata(participantMetadata(next, vehicle));
+        if (replaceAgent) {
+          // Listening from the start, so an agent joining before the server responds is not missed
+          const joined = waitForAgent(room, abortWait.signal);
+          joined.catch(() => {});
+          await switchAgent(next, vehicle);
+          agentReplaced = true;
+          await joined;
+        } else {
+          await room.localParticipant.performRpc({
+            destinationIdentity: agent.identity,
+            method: SET_SESSION_PREFERENCES_RPC,
+            payload: JSON.stringify(next),
+            responseTimeout: AGENT_ACK_TIMEOUT_MS,
+          });
+        }
+        setLanguage(next.language);
+        setVoiceBase(next.voiceBase);
+      } catch (error) {
+        abortWait.abort(error);
+        // The previous agent is gone once the server has replaced it, even if the new one is late
+        if (agentReplaced) {
+          setLanguage(next.language);
+          setVoiceBase(next.voiceBase);
+        } else if (language) {
+          await room.localParticipant
+            .setMetadata(participantMetadata({ language, voiceBase }, vehicle))
+            .catch((e) => console.warn('Failed to restore participant metadata:', e));
+        }
+        throw error;
+      } finally {
+        setPendingPreferences(null);
+      }
+    },
+    [room, language, voiceBase, vehicle, switchAgent]
+  );
+
+  /** Update the vehicle; in a session the agent is told through the participant metadata. */
+  const updateVehicle = useCallback(
+    async (next: VehicleProfile) => {
+      if (room.state === 'connected' && language) {
+        await room.localParticipant.setMetadata(participantMetadata({ language, voiceBase }, next));
+      }
+      setVehicle(next);
+    },
+    [room, language, voiceBase]
+  );
+
+  return {
+    language,
+    voiceBase,
+    setLanguage,
+    setVoiceBase,
+    vehicle,
+    updateVehicle,
+    pendingPreferences,
+    switchPreferences,
+  };
+}
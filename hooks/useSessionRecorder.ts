@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { RoomEvent } from 'livekit-client';
+import { useRoomContext } from '@livekit/components-react';
+import type { Language, VoiceBase } from '@/hooks/useConnectionDetails';
+import { saveSession } from '@/lib/session-history';
+import type {
+  DiagnosticReportVersion,
+  SessionRecord,
+  TranscriptEntry,
+  VehicleProfile,
+} from '@/lib/types';
+
+// Saves are batched so a streaming transcript is not rewritten on every token
+const SAVE_DELAY_MS = 2000;
+
+export interface UseSessionRecorderOptions {
+  sessionStarted: boolean;
+  transcript: TranscriptEntry[];
+  reportVersions: DiagnosticReportVersion[];
+  vehicle: VehicleProfile;
+  language: Language;
+  voiceBase: VoiceBase;
+}
+
+/**
+ * Keep the current session in the local session history. A record is started when the room
+ * connects, kept across a rejoin after a dropped connection, and finished when the session ends,
+ * whether the room closed or the technician left.
+ * Sessions in which nothing was said and no report arrived are not kept.
+ */
+export default function useSessionRecorder(options: UseSessionRecorderOptions) {
+  const room = useRoomContext();
+  const session = useRef<Pick<SessionRecord, 'id' | 'startedAt' | 'roomName'> | null>(null);
+  const latest = useRef(options);
+  latest.current = options;
+
+  const save = useCallback(() => {
+    if (!session.current) return;
+    const { startedAt } = session.current;
+    const { reportVersions, vehicle, language, voiceBase } = latest.current;
+    // The room is reused for the next session, and so is the transcript of earlier ones
+    const transcript = latest.current.transcript.filter((entry) => entry.receivedAt >= startedAt);
+    if (transcript.length === 0 && reportVersions.length === 0) return;
+    saveSession({
+      ...session.current,
+      endedAt: Date.now(),
+      language,
+      voiceBase,
+      vehicle,
+      transcript,
+      reportVersions,
+    }).catch((error) => console.error('Failed to save session history:', error));
+  }, []);
+
+  useEffect(() => {
+    const onConnected = () => {
+      session.current ??= { id: crypto.randomUUID(), startedAt: Date.now() };
+      session.current.roomName ??= room.name || undefined;
+    };
+    room.on(RoomEvent.Connected, onConnected);
+    return () => {
+      room.off(RoomEvent.Connected, onConnected);
+    };
+  }, [room]);
+
+  const { sessionStarted, transcript, reportVersions, vehicle, language, voiceBase } = options;
+  useEffect(() => {
+    // Not on Disconnected, which leaving after a dropped connection does not emit again
+    if (sessionStarted) return;
+    save();
+    session.current = null;
+  }, [sessionStarted, save]);
+
+  useEffect(() => {
+    if (!session.current) return;
+    const timeoutId = setTimeout(save, SAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [save, transcript, reportVersions, vehicle, language, voiceBase]);
+}
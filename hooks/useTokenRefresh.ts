@@ -0,0 +1,78 @@
+import { useEffect, useRef } from 'react';
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import useConnectionDetails, { type Language, type VoiceBase } from '@/hooks/useConnectionDetails';
+import type { VehicleProfile } from '@/lib/types';
+
+// Leaves time for a retry or two before the token actually expires
+const REFRESH_BEFORE_EXPIRY_MS = 2 * 60_000;
+const RETRY_DELAY_MS = 30_000;
+
+interface UseTokenRefreshOptions {
+  /** Details of the current session, or null when not connected. */
+  connectionDetails: ConnectionDetails | null;
+  language: Language | null;
+  voiceBase: VoiceBase;
+  vehicle: VehicleProfile;
+  onRefresh: (connectionDetails: ConnectionDetails) => void;
+  /** Called once per token if renewing it fails; retries continue until it expires. */
+  onRefreshError: (error: Error) => void;
+}
+
+/**
+ * Renews the participant token shortly before it expires, so a reconnect late in a long session
+ * still has a valid token for the same room.
+ */
+export default function useTokenRefresh({
+  connectionDetails,
+  language,
+  voiceBase,
+  vehicle,
+  onRefresh,
+  onRefreshError,
+}: UseTokenRefreshOptions) {
+  const { fetchConnectionDetails } = useConnectionDetails();
+
+  // Read at refresh time so preference changes and new callbacks do not reschedule the timer
+  const latest = useRef({ language, voiceBase, vehicle, onRefresh, onRefreshError });
+  latest.current = { language, voiceBase, vehicle, onRefresh, onRefreshError };
+
+  useEffect(() => {
+    if (!connectionDetails) return;
+
+    const { participantToken, participantTokenExpiresAt } = connectionDetails;
+    let timeout: ReturnType<typeof setTimeout>;
+    let reportedError = false;
+    let cancelled = false;
+
+    const refresh = async () => {
+      const { language, voiceBase, vehicle } = latest.current;
+      try {
+        const refreshed = await fetchConnectionDetails(
+          language ?? 'en',
+          voiceBase,
+          vehicle,
+          participantToken
+        );
+        if (!cancelled) latest.current.onRefresh(refreshed);
+      } catch (error) {
+        if (cancelled) return;
+        if (!reportedError) {
+          reportedError = true;
+          latest.current.onRefreshError(error instanceof Error ? error : new Error(String(error)));
+        }
+        if (Date.now() + RETRY_DELAY_MS < participantTokenExpiresAt) {
+          timeout = setTimeout(refresh, RETRY_DELAY_MS);
+        }
+      }
+    };
+
+    timeout = setTimeout(
+      refresh,
+      Math.max(0, participantTokenExpiresAt - REFRESH_BEFORE_EXPIRY_MS - Date.now())
+    );
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [connectionDetails, fetchConnectionDetails]);
+}
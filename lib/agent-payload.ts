@@ -0,0 +1,287 @@
+import type {
+  AgentPayload,
+  DiagnosticReport,
+  RepairStep,
+  ReplacementPart,
+  RootCause,
+  Specification,
+  WebSource,
+  YouTubeVideo,
+} from './types';
+
+/**
+ * Current payload schema version. Agents should publish:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "voice_output": "Short spoken answer",
+ *   "diagnostic_report": {
+ *     "content": "Markdown report",
+ *     "web_sources": [{ "url": "https://…", "title": "…", "snippet": "…" }],
+ *     "youtube_videos": [{ "url": "https://…", "title": "…", "thumbnail": "…", "video_id": "…" }],
+ *     "root_causes": [{ "description": "…", "confidence": 0.7 }],
+ *     "repair_steps": [{ "description": "…", "details": "…" }],
+ *     "tools": ["…"],
+ *     "parts": [{ "name": "…", "part_number": "…", "quantity": 1 }],
+ *     "specifications": [{ "name": "…", "value": "25", "unit": "N·m" }],
+ *     "safety_notes": ["…"]
+ *   }
+ * }
+ * ```
+ *
+ * At least one of `voice_output` and `diagnostic_report` must be present. Every report field
+ * after `youtube_videos` is optional; `content` may be omitted when any of them is given. Unversioned payloads
+ * are accepted in these legacy shapes:
+ *
+ * - `legacy_diagnostic_report`: `{ voice_output?, diagnostic_report }`, or `{ voice_output }` alone
+ * - `legacy_text_output`: `{ voice_output?, text_output }` with the same fields as a report
+ * - `legacy_content`: a bare report, `{ content, web_sources?, youtube_videos? }`
+ * - `legacy_voice_text`: the string `VOICE:<spoken>|||TEXT:<report markdown>`
+ * - `plain`: any text that does not start with `{`
+ */
+export const AGENT_PAYLOAD_VERSION = 1;
+
+const VOICE_TEXT_PATTERN = /^VOICE:([\s\S]*?)\|\|\|TEXT:([\s\S]*)$/;
+
+class PayloadValidationError extends Error {
+  constructor(path: string, expectation: string) {
+    super(`${path} ${expectation}`);
+    this.name = 'PayloadValidationError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new PayloadValidationError(path, 'must be a string');
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(value, path);
+}
+
+function optionalNumber(
+  value: unknown,
+  path: string,
+  { min, max, integer = false }: { min: number; max: number; integer?: boolean }
+): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new PayloadValidationError(path, 'must be a number');
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new PayloadValidationError(path, 'must be a whole number');
+  }
+  if (value < min || value > max) {
+    throw new PayloadValidationError(path, `must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function expectArray<T>(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, path: string) => T
+): T[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new PayloadValidationError(path, 'must be an array');
+  return value.map((item, index) => validateItem(item, `${path}[${index}]`));
+}
+
+function optionalArray<T>(
+  value: unknown,
+  path: string,
+  validateItem: (item: unknown, path: string) => T
+): T[] | undefined {
+  return value === undefined || value === null ? undefined : expectArray(value, path, validateItem);
+}
+
+function validateWebSource(value: unknown, path: string): WebSource {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  return {
+    url: expectString(value.url, `${path}.url`),
+    title: expectString(value.title, `${path}.title`),
+    snippet: optionalString(value.snippet, `${path}.snippet`),
+  };
+}
+
+function validateYouTubeVideo(value: unknown, path: string): YouTubeVideo {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  return {
+    url: expectString(value.url, `${path}.url`),
+    title: expectString(value.title, `${path}.title`),
+    thumbnail: optionalString(value.thumbnail, `${path}.thumbnail`),
+    video_id: optionalString(value.video_id, `${path}.video_id`),
+  };
+}
+
+function validateRootCause(value: unknown, path: string): RootCause {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  return {
+    description: expectString(value.description, `${path}.description`),
+    confidence: optionalNumber(value.confidence, `${path}.confidence`, { min: 0, max: 1 }),
+  };
+}
+
+function validateRepairStep(value: unknown, path: string): RepairStep {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  return {
+    description: expectString(value.description, `${path}.description`),
+    details: optionalString(value.details, `${path}.details`),
+  };
+}
+
+function validatePart(value: unknown, path: string): ReplacementPart {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  return {
+    name: expectString(value.name, `${path}.name`),
+    part_number: optionalString(value.part_number, `${path}.part_number`),
+    quantity: optionalNumber(value.quantity, `${path}.quantity`, {
+      min: 1,
+      max: 1000,
+      integer: true,
+    }),
+  };
+}
+
+function validateSpecification(value: unknown, path: string): Specification {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  // Agents often send numeric values as numbers; they are displayed as written
+  const specValue = typeof value.value === 'number' ? String(value.value) : value.value;
+  return {
+    name: expectString(value.name, `${path}.name`),
+    value: expectString(specValue, `${path}.value`),
+    unit: optionalString(value.unit, `${path}.unit`),
+  };
+}
+
+function validateReport(value: unknown, path: string): DiagnosticReport {
+  if (!isRecord(value)) throw new PayloadValidationError(path, 'must be an object');
+  const hasExternalSources = value.has_external_sources;
+  if (hasExternalSources !== undefined && typeof hasExternalSources !== 'boolean') {
+    throw new PayloadValidationError(`${path}.has_external_sources`, 'must be a boolean');
+  }
+  const sections = {
+    root_causes: optionalArray(value.root_causes, `${path}.root_causes`, validateRootCause),
+    repair_steps: optionalArray(value.repair_steps, `${path}.repair_steps`, validateRepairStep),
+    tools: optionalArray(value.tools, `${path}.tools`, expectString),
+    parts: optionalArray(value.parts, `${path}.parts`, validatePart),
+    specifications: optionalArray(
+      value.specifications,
+      `${path}.specifications`,
+      validateSpecification
+    ),
+    safety_notes: optionalArray(value.safety_notes, `${path}.safety_notes`, expectString),
+  };
+  // A fully structured report needs no freeform text
+  const hasSections = Object.values(sections).some((section) => section && section.length > 0);
+  return {
+    content: hasSections
+      ? (optionalString(value.content, `${path}.content`) ?? '')
+      : expectString(value.content, `${path}.content`),
+    web_sources: expectArray(value.web_sources, `${path}.web_sources`, validateWebSource),
+    youtube_videos: expectArray(
+      value.youtube_videos,
+      `${path}.youtube_videos`,
+      validateYouTubeVideo
+    ),
+    has_external_sources: hasExternalSources,
+    ...sections,
+  };
+}
+
+function validateObjectPayload(
+  value: UnknownRecord
+): Omit<Extract<AgentPayload, { ok: true }>, 'ok'> {
+  const voice = optionalString(value.voice_output, 'voice_output') ?? null;
+
+  if (value.version !== undefined) {
+    if (value.version !== AGENT_PAYLOAD_VERSION) {
+      throw new PayloadValidationError('version', `must be ${AGENT_PAYLOAD_VERSION}`);
+    }
+    const report =
+      value.diagnostic_report === undefined
+        ? null
+        : validateReport(value.diagnostic_report, 'diagnostic_report');
+    if (voice === null && report === null) {
+      throw new PayloadValidationError('payload', 'needs voice_output or diagnostic_report');
+    }
+    return { format: 'v1', voice, report };
+  }
+
+  if (value.diagnostic_report !== undefined) {
+    return {
+      format: 'legacy_diagnostic_report',
+      voice,
+      report: validateReport(value.diagnostic_report, 'diagnostic_report'),
+    };
+  }
+  if (value.text_output !== undefined) {
+    return {
+      format: 'legacy_text_output',
+      voice,
+      report: validateReport(value.text_output, 'text_output'),
+    };
+  }
+  if (value.content !== undefined) {
+    return { format: 'legacy_content', voice, report: validateReport(value, 'payload') };
+  }
+  if (voice !== null) {
+    return { format: 'legacy_diagnostic_report', voice, report: null };
+  }
+
+  throw new PayloadValidationError(
+    'payload',
+    'has none of voice_output, diagnostic_report, text_output or content'
+  );
+}
+
+/**
+ * Parse and validate a message, report stream or diagnostic endpoint payload from the agent.
+ * Malformed payloads are returned as `{ ok: false }` with the reason rather than shown as text.
+ */
+export function parseAgentPayload(raw: string): AgentPayload {
+  const voiceText = raw.match(VOICE_TEXT_PATTERN);
+  if (voiceText) {
+    return {
+      ok: true,
+      format: 'legacy_voice_text',
+      voice: voiceText[1].trim(),
+      report: { content: voiceText[2].trim(), web_sources: [], youtube_videos: [] },
+    };
+  }
+
+  if (!raw.trimStart().startsWith('{')) {
+    return { ok: true, format: 'plain', voice: raw, report: null };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, error: `Invalid JSON: ${reason}`, raw };
+  }
+
+  try {
+    if (!isRecord(value)) throw new PayloadValidationError('payload', 'must be an object');
+    return { ok: true, ...validateObjectPayload(value) };
+  } catch (error) {
+    if (error instanceof PayloadValidationError) {
+      return { ok: false, error: error.message, raw };
+    }
+    throw error;
+  }
+}
+
+/** The text a payload contributes to the chat transcript. */
+export function payloadChatText(payload: AgentPayload): string {
+  if (!payload.ok) return payload.raw;
+  return payload.voice ?? payload.report?.content ?? '';
+}
@@ -0,0 +1,25 @@
+/**
+ * Byte-stream topic chat attachments are exchanged on, in both directions. The caption, if
+ * any, is sent as the stream's `caption` attribute. A cancelled upload closes its stream early,
+ * so receivers should discard streams shorter than their announced size.
+ */
+export const CHAT_ATTACHMENT_TOPIC = 'lk.chat_attachment';
+
+/** Text-stream topic the agent publishes completed diagnostic reports on. */
+export const DIAGNOSTIC_REPORT_TOPIC = 'lk.diagnostic_report';
+
+/**
+ * RPC the agent implements to stop speaking and cancel the reply it is generating. The payload is
+ * empty; the agent responds once the reply has been cancelled.
+ */
+export const INTERRUPT_AGENT_RPC = 'interrupt_agent';
+
+/** Agent RPCs marking the start and end of a push-to-talk turn. Both take an empty payload. */
+export const START_TURN_RPC = 'start_turn';
+export const END_TURN_RPC = 'end_turn';
+
+/**
+ * RPC the agent implements to switch language without the room being torn down. The payload is
+ * the JSON-encoded `SessionPreferences`; the agent responds once it has switched.
+ */
+export const SET_SESSION_PREFERENCES_RPC = 'set_session_preferences';
@@ -0,0 +1,55 @@
+export type AttachmentKind = 'image' | 'pdf' | 'log';
+
+/** Largest file the composer accepts; data streams are slow for anything bigger. */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+const LOG_TYPES = ['text/plain', 'text/csv'];
+// Scan tools export logs with extensions browsers often report without a MIME type
+const LOG_EXTENSIONS = ['.log', '.txt', '.csv'];
+
+/** Value for the file input's `accept` attribute. */
+export const ATTACHMENT_ACCEPT = [
+  ...IMAGE_TYPES,
+  'application/pdf',
+  ...LOG_TYPES,
+  ...LOG_EXTENSIONS,
+].join(',');
+
+export function attachmentKind(mimeType: string, name: string): AttachmentKind | null {
+  if (IMAGE_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  const lowerName = name.toLowerCase();
+  if (LOG_TYPES.includes(mimeType) || LOG_EXTENSIONS.some((ext) => lowerName.endsWith(ext))) {
+    return 'log';
+  }
+  return null;
+}
+
+/** Why a file cannot be attached, or null if it can. */
+export function attachmentError(file: File): 'unsupportedType' | 'tooLarge' | null {
+  if (!attachmentKind(file.type, file.name)) return 'unsupportedType';
+  if (file.size > MAX_ATTACHMENT_BYTES) return 'tooLarge';
+  return null;
+}
+
+/** MIME type to announce for a file, filling in the ones browsers leave empty. */
+export function attachmentMimeType(file: File) {
+  if (file.type) return file.type;
+  return attachmentKind(file.type, file.name) === 'log' ? 'text/plain' : 'application/octet-stream';
+}
+
+export function formatFileSize(bytes: number, locale: string) {
+  const [value, unit] =
+    bytes >= 1024 * 1024
+      ? [bytes / (1024 * 1024), 'megabyte']
+      : bytes >= 1024
+        ? [bytes / 1024, 'kilobyte']
+        : [bytes, 'byte'];
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit,
+    unitDisplay: 'short',
+    maximumFractionDigits: 1,
+  }).format(value);
+}
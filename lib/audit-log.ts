@@ -0,0 +1,7 @@
+/**
+ * Writes one JSON line per security-relevant event to the server log, where it can be collected
+ * by the hosting platform's log drain.
+ */
+export function auditLog(event: string, fields: Record<string, unknown>) {
+  console.info(JSON.stringify({ audit: true, event, at: new Date().toISOString(), ...fields }));
+}
@@ -0,0 +1,175 @@
+import { RpcError } from 'livekit-client';
+import {
+  LANGUAGES,
+  type Language,
+  VOICE_BASES,
+  type VoiceBase,
+} from '@/hooks/useConnectionDetails';
+
+/**
+ * RPC methods the client registers for the agent to call, so it can act on the UI instead of
+ * only describing what to open. Payloads and responses are JSON objects, and an empty payload
+ * is read as `{}`. Only participants joined as agents may call these methods.
+ *
+ * - `open_report_panel`, `{ "version"?: 2 }`: opens the diagnostic report at `version`, or the
+ *   latest. Responds `{ "version": 2 }` with the version shown, `null` before any report.
+ * - `show_image`, `{ "url": "https://…", "caption"?: "…" }`: shows an http(s) image over the
+ *   session. Responds `{}`.
+ * - `highlight_step`, `{ "index": 0 }` or `{ "step": "…" }`: opens the latest report and
+ *   highlights one of its repair steps, by zero-based index or by description (ignoring case).
+ *   Responds `{ "index": 0 }`.
+ * - `request_camera`, `{ "reason"?: "…" }`: asks the technician to turn on their camera. It is
+ *   never turned on without them, and the agent sees the camera track once they do. Responds
+ *   `{ "status": "prompted" }`, or `already_on` or `unavailable`.
+ * - `set_language`, `{ "language": "hi", "voiceBase"?: "Live Assistant" }`: switches as the
+ *   language menu does. Responds `{}` as soon as the switch starts, after which the client calls
+ *   `set_session_preferences`, so the agent must not wait for the response to acknowledge it. A
+ *   new `voiceBase` instead has the calling agent replaced by the one serving it.
+ *
+ * Malformed payloads are rejected with `CLIENT_RPC_INVALID_PAYLOAD` and the reason, e.g.
+ * `payload.index must be a whole number`. Valid requests that cannot be carried out, such as a
+ * step the report does not have, fail with `APPLICATION_ERROR` (1500) and the reason.
+ */
+export const CLIENT_RPC_METHODS = [
+  'open_report_panel',
+  'show_image',
+  'highlight_step',
+  'request_camera',
+  'set_language',
+] as const;
+
+export type ClientRpcMethod = (typeof CLIENT_RPC_METHODS)[number];
+
+/** Error code for malformed payloads; codes 1001–1999 are reserved by LiveKit. */
+export const CLIENT_RPC_INVALID_PAYLOAD = 2000;
+
+export interface OpenReportPanelPayload {
+  version?: number;
+}
+
+export interface ShowImagePayload {
+  url: string;
+  caption?: string;
+}
+
+export type HighlightStepPayload = { index: number } | { step: string };
+
+export interface RequestCameraPayload {
+  reason?: string;
+}
+
+export interface SetLanguagePayload {
+  language: Language;
+  voiceBase?: VoiceBase;
+}
+
+export interface ClientRpcPayloads {
+  open_report_panel: OpenReportPanelPayload;
+  show_image: ShowImagePayload;
+  highlight_step: HighlightStepPayload;
+  request_camera: RequestCameraPayload;
+  set_language: SetLanguagePayload;
+}
+
+class ClientRpcValidationError extends Error {
+  constructor(path: string, expectation: string) {
+    super(`${path} ${expectation}`);
+    this.name = 'ClientRpcValidationError';
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new ClientRpcValidationError(path, 'must be a non-empty string');
+  }
+  return value.trim();
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(value, path);
+}
+
+function optionalIndex(value: unknown, path: string, min: number): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value)) {
+    throw new ClientRpcValidationError(path, 'must be a whole number');
+  }
+  if (value < min) throw new ClientRpcValidationError(path, `must be at least ${min}`);
+  return value;
+}
+
+function expectOneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+  if (!options.includes(value as T)) {
+    throw new ClientRpcValidationError(path, `must be one of ${options.join(', ')}`);
+  }
+  return value as T;
+}
+
+const validators: { [M in ClientRpcMethod]: (payload: UnknownRecord) => ClientRpcPayloads[M] } = {
+  open_report_panel: (payload) => ({
+    version: optionalIndex(payload.version, 'payload.version', 1),
+  }),
+  show_image: (payload) => {
+    const url = expectString(payload.url, 'payload.url');
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      throw new ClientRpcValidationError('payload.url', 'must be an absolute URL');
+    }
+    if (protocol !== 'https:' && protocol !== 'http:') {
+      throw new ClientRpcValidationError('payload.url', 'must be an http or https URL');
+    }
+    return { url, caption: optionalString(payload.caption, 'payload.caption') };
+  },
+  highlight_step: (payload) => {
+    const index = optionalIndex(payload.index, 'payload.index', 0);
+    const step = optionalString(payload.step, 'payload.step');
+    if (index !== undefined && step === undefined) return { index };
+    if (step !== undefined && index === undefined) return { step };
+    throw new ClientRpcValidationError('payload', 'must have exactly one of index and step');
+  },
+  request_camera: (payload) => ({ reason: optionalString(payload.reason, 'payload.reason') }),
+  set_language: (payload) => ({
+    language: expectOneOf(payload.language, 'payload.language', LANGUAGES),
+    voiceBase:
+      payload.voiceBase === undefined || payload.voiceBase === null
+        ? undefined
+        : expectOneOf(payload.voiceBase, 'payload.voiceBase', VOICE_BASES),
+  }),
+};
+
+/**
+ * Parse and validate the payload of a call to one of `CLIENT_RPC_METHODS`. Throws an `RpcError`
+ * with `CLIENT_RPC_INVALID_PAYLOAD`, which is passed on to the agent as is.
+ */
+export function parseClientRpcPayload<M extends ClientRpcMethod>(
+  method: M,
+  raw: string
+): ClientRpcPayloads[M] {
+  let value: unknown = {};
+  if (raw.trim()) {
+    try {
+      value = JSON.parse(raw);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new RpcError(CLIENT_RPC_INVALID_PAYLOAD, `Invalid JSON: ${reason}`);
+    }
+  }
+
+  try {
+    if (!isRecord(value)) throw new ClientRpcValidationError('payload', 'must be an object');
+    return validators[method](value);
+  } catch (error) {
+    if (error instanceof ClientRpcValidationError) {
+      throw new RpcError(CLIENT_RPC_INVALID_PAYLOAD, error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,130 @@
+import type { AgentPayload, DiagnosticReport, WebSource, YouTubeVideo } from './types';
+
+export type DiffStatus = 'added' | 'removed' | 'unchanged';
+
+export interface DiffEntry<T> {
+  item: T;
+  status: DiffStatus;
+}
+
+export interface DiagnosticReportDiff {
+  rootCauses: DiffEntry<string>[];
+  steps: DiffEntry<string>[];
+  webSources: DiffEntry<WebSource>[];
+  youtubeVideos: DiffEntry<YouTubeVideo>[];
+}
+
+/**
+ * The report carried by a validated payload. Plain text published as a report (e.g. by the
+ * diagnostic endpoint) is treated as report content.
+ */
+export function payloadReport(payload: AgentPayload): DiagnosticReport | null {
+  if (!payload.ok) return null;
+  if (payload.report) return payload.report;
+  if (payload.format === 'plain' && payload.voice) {
+    return { content: payload.voice, web_sources: [], youtube_videos: [] };
+  }
+  return null;
+}
+
+const HEADER_PATTERN = /^(?:#{1,6}\s*(.+?)|\*\*(.+?):?\*\*:?)\s*$/;
+const BULLET_PATTERN = /^(?:[-*•]|\d+[.)])\s+(.+)$/;
+
+/**
+ * Collect the bullet items under root-cause and repair-step headers of freeform report text,
+ * e.g. `**Potential Root Causes:**` followed by `- Faulty ignition coil`.
+ */
+export function extractReportSections(content: string) {
+  const rootCauses: string[] = [];
+  const steps: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of content.split('\n').map((l) => l.trim())) {
+    const header = line.match(HEADER_PATTERN);
+    if (header) {
+      const title = header[1] ?? header[2];
+      current = /cause/i.test(title)
+        ? rootCauses
+        : /step|procedure|repair|fix|action|recommend/i.test(title)
+          ? steps
+          : null;
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet && current) {
+      current.push(bullet[1].replace(/\*\*/g, '').trim());
+    }
+  }
+
+  return { rootCauses, steps };
+}
+
+/**
+ * Root causes and repair steps of a report, taken from its structured sections when the agent
+ * sent them and extracted from the freeform content otherwise.
+ */
+export function reportSections(report: DiagnosticReport) {
+  const extracted = extractReportSections(report.content);
+  return {
+    rootCauses: report.root_causes?.length
+      ? report.root_causes.map((cause) => cause.description)
+      : extracted.rootCauses,
+    steps: report.repair_steps?.length
+      ? report.repair_steps.map((step) => step.description)
+      : extracted.steps,
+  };
+}
+
+export function hasStructuredSections(report: DiagnosticReport) {
+  return [
+    report.root_causes,
+    report.repair_steps,
+    report.tools,
+    report.parts,
+    report.specifications,
+    report.safety_notes,
+  ].some((section) => section && section.length > 0);
+}
+
+function diffLists<T>(previous: T[], next: T[], key: (item: T) => string): DiffEntry<T>[] {
+  const previousKeys = new Set(previous.map(key));
+  const nextKeys = new Set(next.map(key));
+
+  return [
+    ...next.map((item) => ({
+      item,
+      status: previousKeys.has(key(item)) ? ('unchanged' as const) : ('added' as const),
+    })),
+    ...previous
+      .filter((item) => !nextKeys.has(key(item)))
+      .map((item) => ({ item, status: 'removed' as const })),
+  ];
+}
+
+export const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export function diffDiagnosticReports(
+  previous: DiagnosticReport,
+  next: DiagnosticReport
+): DiagnosticReportDiff {
+  const previousSections = reportSections(previous);
+  const nextSections = reportSections(next);
+
+  return {
+    rootCauses: diffLists(previousSections.rootCauses, nextSections.rootCauses, normalizeText),
+    steps: diffLists(previousSections.steps, nextSections.steps, normalizeText),
+    webSources: diffLists(previous.web_sources, next.web_sources, (source) => source.url),
+    youtubeVideos: diffLists(
+      previous.youtube_videos,
+      next.youtube_videos,
+      (video) => video.video_id ?? video.url
+    ),
+  };
+}
+
+export function hasReportChanges(diff: DiagnosticReportDiff) {
+  return Object.values(diff).some((entries: DiffEntry<unknown>[]) =>
+    entries.some((entry) => entry.status !== 'unchanged')
+  );
+}
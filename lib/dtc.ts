@@ -0,0 +1,80 @@
+/**
+ * OBD-II diagnostic trouble codes (SAE J2012). Descriptions cover common generic codes and live
+ * in the i18n catalogs; codes that are manufacturer specific or not in the dictionary are still
+ * recognized and categorized.
+ */
+import type { Messages } from './i18n';
+
+export type DtcSystem = 'powertrain' | 'body' | 'chassis' | 'network';
+
+export interface DiagnosticTroubleCode {
+  code: string;
+  system: DtcSystem;
+  /** Whether the code is SAE-defined rather than manufacturer specific. */
+  generic: boolean;
+}
+
+const SYSTEMS: Record<string, DtcSystem> = {
+  P: 'powertrain',
+  B: 'body',
+  C: 'chassis',
+  U: 'network',
+};
+
+// Letter, then 0-3, then three hex digits, e.g. P0301, U0100, P242F
+const DTC_PATTERN = /\b[PBCU][0-3][0-9A-F]{3}\b/g;
+
+// The injector circuit (P0201-P0208) and misfire (P0301-P0308) codes of each cylinder
+const CYLINDER_CODE = /^P0([23])0([1-8])$/;
+
+/**
+ * SAE J2012 reserves P0, P2, B0, C0 and U0 for generic codes, as well as B3, C3, U3 and P34-P3F.
+ * P1, P30-P33 and the 1 and 2 ranges of the other systems are manufacturer specific.
+ */
+function isGeneric(code: string) {
+  const [system, first, second] = code;
+  switch (first) {
+    case '0':
+      return true;
+    case '2':
+      return system === 'P';
+    case '3':
+      return system !== 'P' || second >= '4';
+    default:
+      return false;
+  }
+}
+
+export function parseDtc(input: string): DiagnosticTroubleCode | null {
+  const code = input.trim().toUpperCase();
+  if (!new RegExp(`^${DTC_PATTERN.source}$`).test(code)) return null;
+  return {
+    code,
+    system: SYSTEMS[code[0]],
+    generic: isGeneric(code),
+  };
+}
+
+/** The description of a code in the given catalog, if it is in the dictionary. */
+export function dtcDescription(code: string, messages: Messages['dtc']): string | undefined {
+  const cylinder = CYLINDER_CODE.exec(code);
+  if (cylinder) {
+    const number = Number(cylinder[2]);
+    return cylinder[1] === '2' ? messages.injectorCircuit(number) : messages.misfire(number);
+  }
+  const descriptions: Partial<Record<string, string>> = messages.descriptions;
+  return descriptions[code];
+}
+
+/** Split text into plain strings and trouble codes, in order, for inline rendering. */
+export function splitDtcs(text: string): Array<string | DiagnosticTroubleCode> {
+  const parts: Array<string | DiagnosticTroubleCode> = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(DTC_PATTERN)) {
+    if (match.index > lastIndex) parts.push(text.slice(lastIndex, match.index));
+    parts.push(parseDtc(match[0])!);
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+  return parts;
+}
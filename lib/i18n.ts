@@ -0,0 +1,1197 @@
+import type { Language } from '@/hooks/useConnectionDetails';
+
+/** BCP 47 locale used for date and time formatting in each UI language. */
+export const LOCALES: Record<Language, string> = {
+  en: 'en-IN',
+  kn: 'kn-IN',
+  hi: 'hi-IN',
+  ta: 'ta-IN',
+};
+
+/** Each language's name in its own script, as shown in language pickers. */
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  kn: 'ಕನ್ನಡ',
+  hi: 'हिंदी',
+  ta: 'தமிழ்',
+};
+
+const en = {
+  welcome: {
+    tagline: "Mechanic's Trusted Co-Pilot",
+    selectLanguage: 'Select Language',
+    voiceAssistant: 'VOICE ASSISTANT',
+    liveAssistant: 'LIVE ASSISTANT',
+    startCall: 'Start Call',
+    pastSessions: 'Past sessions',
+  },
+  session: {
+    agentListening: 'Agent is listening, ask it a question',
+    sessionEnded: 'Session ended',
+    agentDidNotJoin: 'Agent did not join the room. ',
+    agentDidNotInitialize: 'Agent connected but did not complete initializing. ',
+    quickstartGuide: 'See quickstart guide',
+    callEnded: 'Call ended',
+    downloadTranscript: 'Download the transcript:',
+    reconnecting: 'Connection lost. Reconnecting…',
+    connectionLost: 'The call was disconnected.',
+    rejoin: 'Rejoin',
+    agentImage: 'Image from the agent',
+    closeImage: 'Close image',
+    leave: 'Leave',
+    queuedMessages: (count: number) =>
+      count === 1
+        ? '1 message will be sent when reconnected'
+        : `${count} messages will be sent when reconnected`,
+  },
+  toast: {
+    mediaDevicesError: 'Encountered an error with your media devices',
+    connectionError: 'There was an error connecting to the agent',
+    preferencesSwitchError: 'The agent did not confirm the switch',
+    tokenRefreshError: "Couldn't renew your session",
+    tokenRefreshHint: 'The call continues, but if it drops you will need to start a new one.',
+    interruptError: 'The agent could not be stopped',
+  },
+  controlBar: {
+    controls: 'Voice assistant controls',
+    toggleChat: 'Toggle chat',
+    toggleReport: 'Toggle diagnostic report',
+    exportTranscript: 'Export transcript',
+    language: 'Conversation language',
+    assistantMode: 'Assistant mode',
+    switching: 'Switching…',
+    endCall: 'END CALL',
+    end: 'END',
+    repairProgress: 'Repair progress',
+    pushToTalk: 'Push to talk',
+    holdToTalk: 'Hold to talk',
+    holdToTalkHint: 'or hold Space',
+    talking: 'Listening… release to send',
+    stopAgent: 'Stop',
+    stopAgentLabel: "Stop the agent's answer",
+    cameraRequested: 'The agent would like to see the vehicle',
+    turnOnCamera: 'Turn on camera',
+  },
+  chat: {
+    placeholder: 'Type something...',
+    send: 'SEND',
+    malformedMessage: 'Malformed agent message',
+    vinDetected: 'VIN detected; the vehicle details will be updated',
+    interrupted: 'Stopped before finishing',
+    dtcSystems: {
+      powertrain: 'Powertrain',
+      body: 'Body',
+      chassis: 'Chassis',
+      network: 'Network',
+    },
+    dtcCategories: {
+      generic: 'Generic (SAE)',
+      manufacturer: 'Manufacturer-specific',
+    },
+    dtcUnlisted: 'Not in the code list',
+    dtcAsk: 'Ask the agent to explain this code',
+    dtcExplain: (code: string) => `Explain trouble code ${code}`,
+  },
+  snapshot: {
+    take: 'Take a photo for the agent',
+    title: 'Photo for the agent',
+    cropHint: 'Drag on the photo to crop',
+    resetCrop: 'Reset crop',
+    captionPlaceholder: 'What should the agent look at?',
+    defaultCaption: 'Photo from the technician',
+    retake: 'Retake',
+    cancel: 'Cancel',
+    send: 'Send',
+    captureError: "Couldn't capture a photo from the camera",
+    sendError: "Couldn't send the photo",
+  },
+  attachments: {
+    attach: 'Attach images, PDFs or scan logs',
+    remove: (name: string) => `Remove ${name}`,
+    rejected: "Couldn't attach file",
+    unsupportedType: (name: string) => `${name} is not an image, PDF or log file.`,
+    tooLarge: (name: string, limit: string) => `${name} is larger than ${limit}.`,
+    sending: (percent: string) => `Sending ${percent}`,
+    receiving: (percent: string) => `Receiving ${percent}`,
+    cancelled: 'Cancelled',
+    failed: 'Failed',
+    cancel: 'Cancel upload',
+    sendError: "Couldn't send the attachment",
+  },
+  history: {
+    title: 'Past sessions',
+    localOnly: 'Sessions are saved in this browser only.',
+    newSession: 'New session',
+    allSessions: 'All sessions',
+    search: 'Search by vehicle or VIN',
+    date: 'Started on',
+    clearFilters: 'Clear filters',
+    loading: 'Loading sessions…',
+    empty: 'No sessions yet. Calls appear here once something has been said.',
+    noMatches: 'No sessions match your search.',
+    loadError: "Couldn't load the session history",
+    notFound: 'This session is not in the history of this browser.',
+    noVehicle: 'No vehicle recorded',
+    duration: (minutes: number, seconds: number) =>
+      minutes > 0 ? `${minutes} min ${seconds} s` : `${seconds} s`,
+    messages: (count: number) => (count === 1 ? '1 message' : `${count} messages`),
+    reports: (count: number) => (count === 1 ? '1 report' : `${count} reports`),
+    viewReport: 'View report',
+    delete: 'Delete session',
+    deleteConfirm: 'Delete this session from the history?',
+    deleteError: "Couldn't delete the session",
+  },
+  vehicle: {
+    title: 'Vehicle',
+    add: 'Add vehicle details',
+    optional: 'Optional, helps the assistant tailor its diagnosis',
+    edit: 'Edit vehicle details',
+    none: 'No vehicle details',
+    vin: 'VIN',
+    make: 'Make',
+    model: 'Model',
+    year: 'Year',
+    engine: 'Engine',
+    mileage: 'Mileage (km)',
+    fuelType: 'Fuel type',
+    fuelTypes: {
+      petrol: 'Petrol',
+      diesel: 'Diesel',
+      cng: 'CNG',
+      lpg: 'LPG',
+      hybrid: 'Hybrid',
+      ev: 'Electric',
+    },
+    save: 'Save',
+    cancel: 'Cancel',
+    updateError: 'Could not update vehicle details',
+    invalid: 'Check the highlighted field.',
+    vinErrors: {
+      length: 'A VIN has 17 characters.',
+      characters: 'A VIN uses only letters and digits, never I, O or Q.',
+      checkDigit: 'The VIN check digit does not match. Check for typos.',
+    },
+  },
+  report: {
+    title: 'Diagnostic Report',
+    close: 'Close diagnostic report',
+    version: 'Report version',
+    received: 'Received',
+    session: 'Session',
+    language: 'Language',
+    showChanges: 'Show changes from previous version',
+    changesSince: (version: number) => `Changes since v${version}`,
+    rootCauses: 'Root causes',
+    repairSteps: 'Repair steps',
+    webSources: 'Web sources',
+    videos: 'Videos',
+    noChanges: 'No changes to root causes, steps, sources or videos.',
+    exportVersion: 'Export this version',
+    print: 'Print',
+    markdown: 'Markdown',
+    pdf: 'PDF',
+    pdfViaPrint: 'PDF (print)',
+    pdfViaPrintHint:
+      'The PDF export cannot render this script, so the print view opens instead. Choose “Save as PDF” there.',
+    pdfExportError: 'Could not export the report as PDF',
+    analysis: 'Diagnostic Analysis',
+    webSourcesTitle: 'Web Sources',
+    videosTitle: 'Diagnostic Videos',
+    unreadable: 'This report could not be read.',
+    empty: 'No diagnostic data available.',
+    confidence: 'Confidence',
+    safetyNotes: 'Safety notes',
+    tools: 'Required tools',
+    parts: 'Parts',
+    partName: 'Part',
+    partNumber: 'Part number',
+    quantity: 'Qty',
+    specifications: 'Specifications',
+    specName: 'Item',
+    specValue: 'Value',
+    completedAt: (time: string) => `Done at ${time}`,
+    addNote: 'Add note',
+    editNote: 'Edit note',
+    notePlaceholder: 'Note for this step',
+  },
+  dtc: {
+    injectorCircuit: (cylinder: number) => `Injector Circuit Malfunction - Cylinder ${cylinder}`,
+    misfire: (cylinder: number) => `Cylinder ${cylinder} Misfire Detected`,
+    descriptions: {
+      P0010: 'Camshaft Position Actuator Circuit (Bank 1)',
+      P0011: 'Camshaft Position - Timing Over-Advanced or System Performance (Bank 1)',
+      P0016: 'Crankshaft Position - Camshaft Position Correlation (Bank 1 Sensor A)',
+      P0087: 'Fuel Rail/System Pressure - Too Low',
+      P0100: 'Mass or Volume Air Flow Circuit Malfunction',
+      P0101: 'Mass or Volume Air Flow Circuit Range/Performance Problem',
+      P0102: 'Mass or Volume Air Flow Circuit Low Input',
+      P0103: 'Mass or Volume Air Flow Circuit High Input',
+      P0106: 'Manifold Absolute Pressure/Barometric Pressure Circuit Range/Performance Problem',
+      P0107: 'Manifold Absolute Pressure/Barometric Pressure Circuit Low Input',
+      P0108: 'Manifold Absolute Pressure/Barometric Pressure Circuit High Input',
+      P0110: 'Intake Air Temperature Circuit Malfunction',
+      P0112: 'Intake Air Temperature Circuit Low Input',
+      P0113: 'Intake Air Temperature Circuit High Input',
+      P0115: 'Engine Coolant Temperature Circuit Malfunction',
+      P0116: 'Engine Coolant Temperature Circuit Range/Performance Problem',
+      P0117: 'Engine Coolant Temperature Circuit Low Input',
+      P0118: 'Engine Coolant Temperature Circuit High Input',
+      P0120: 'Throttle/Pedal Position Sensor/Switch A Circuit Malfunction',
+      P0121: 'Throttle/Pedal Position Sensor/Switch A Circuit Range/Performance Problem',
+      P0122: 'Throttle/Pedal Position Sensor/Switch A Circuit Low Input',
+      P0123: 'Throttle/Pedal Position Sensor/Switch A Circuit High Input',
+      P0125: 'Insufficient Coolant Temperature for Closed Loop Fuel Control',
+      P0128: 'Coolant Thermostat (Coolant Temperature Below Thermostat Regulating Temperature)',
+      P0130: 'O2 Sensor Circuit Malfunction (Bank 1 Sensor 1)',
+      P0131: 'O2 Sensor Circuit Low Voltage (Bank 1 Sensor 1)',
+      P0132: 'O2 Sensor Circuit High Voltage (Bank 1 Sensor 1)',
+      P0133: 'O2 Sensor Circuit Slow Response (Bank 1 Sensor 1)',
+      P0134: 'O2 Sensor Circuit No Activity Detected (Bank 1 Sensor 1)',
+      P0135: 'O2 Sensor Heater Circuit Malfunction (Bank 1 Sensor 1)',
+      P0136: 'O2 Sensor Circuit Malfunction (Bank 1 Sensor 2)',
+      P0141: 'O2 Sensor Heater Circuit Malfunction (Bank 1 Sensor 2)',
+      P0171: 'System Too Lean (Bank 1)',
+      P0172: 'System Too Rich (Bank 1)',
+      P0174: 'System Too Lean (Bank 2)',
+      P0175: 'System Too Rich (Bank 2)',
+      P0200: 'Injector Circuit Malfunction',
+      P0217: 'Engine Overtemperature Condition',
+      P0230: 'Fuel Pump Primary Circuit Malfunction',
+      P0234: 'Turbocharger/Supercharger Overboost Condition',
+      P0299: 'Turbocharger/Supercharger Underboost',
+      P0300: 'Random/Multiple Cylinder Misfire Detected',
+      P0325: 'Knock Sensor 1 Circuit Malfunction (Bank 1 or Single Sensor)',
+      P0327: 'Knock Sensor 1 Circuit Low Input (Bank 1 or Single Sensor)',
+      P0335: 'Crankshaft Position Sensor A Circuit Malfunction',
+      P0336: 'Crankshaft Position Sensor A Circuit Range/Performance',
+      P0340: 'Camshaft Position Sensor Circuit Malfunction',
+      P0341: 'Camshaft Position Sensor Circuit Range/Performance',
+      P0351: 'Ignition Coil A Primary/Secondary Circuit Malfunction',
+      P0352: 'Ignition Coil B Primary/Secondary Circuit Malfunction',
+      P0380: 'Glow Plug/Heater Circuit A Malfunction',
+      P0400: 'Exhaust Gas Recirculation Flow Malfunction',
+      P0401: 'Exhaust Gas Recirculation Flow Insufficient Detected',
+      P0402: 'Exhaust Gas Recirculation Flow Excessive Detected',
+      P0403: 'Exhaust Gas Recirculation Circuit Malfunction',
+      P0420: 'Catalyst System Efficiency Below Threshold (Bank 1)',
+      P0430: 'Catalyst System Efficiency Below Threshold (Bank 2)',
+      P0440: 'Evaporative Emission Control System Malfunction',
+      P0441: 'Evaporative Emission Control System Incorrect Purge Flow',
+      P0442: 'Evaporative Emission Control System Leak Detected (Small Leak)',
+      P0446: 'Evaporative Emission Control System Vent Control Circuit Malfunction',
+      P0455: 'Evaporative Emission Control System Leak Detected (Gross Leak)',
+      P0456: 'Evaporative Emission Control System Leak Detected (Very Small Leak)',
+      P0500: 'Vehicle Speed Sensor Malfunction',
+      P0505: 'Idle Control System Malfunction',
+      P0506: 'Idle Control System RPM Lower Than Expected',
+      P0507: 'Idle Control System RPM Higher Than Expected',
+      P0520: 'Engine Oil Pressure Sensor/Switch Circuit Malfunction',
+      P0560: 'System Voltage Malfunction',
+      P0562: 'System Voltage Low',
+      P0563: 'System Voltage High',
+      P0600: 'Serial Communication Link Malfunction',
+      P0601: 'Internal Control Module Memory Check Sum Error',
+      P0700: 'Transmission Control System Malfunction',
+      P0705: 'Transmission Range Sensor Circuit Malfunction (PRNDL Input)',
+      P0715: 'Input/Turbine Speed Sensor Circuit Malfunction',
+      P0720: 'Output Speed Sensor Circuit Malfunction',
+      P0740: 'Torque Converter Clutch Circuit Malfunction',
+      P0750: 'Shift Solenoid A Malfunction',
+      P2002: 'Diesel Particulate Filter Efficiency Below Threshold (Bank 1)',
+      P2135: 'Throttle/Pedal Position Sensor/Switch A/B Voltage Correlation',
+      P242F: 'Diesel Particulate Filter Restriction - Ash Accumulation',
+      U0001: 'High Speed CAN Communication Bus',
+      U0100: 'Lost Communication With ECM/PCM A',
+      U0101: 'Lost Communication With TCM',
+      U0121: 'Lost Communication With Anti-Lock Brake System (ABS) Control Module',
+      U0140: 'Lost Communication With Body Control Module',
+      U0155: 'Lost Communication With Instrument Panel Cluster (IPC) Control Module',
+    },
+  },
+};
+
+export type Messages = typeof en;
+
+const kn: Messages = {
+  welcome: {
+    tagline: 'ಮೆಕ್ಯಾನಿಕ್‌ನ ವಿಶ್ವಾಸಾರ್ಹ ಸಹ-ಪೈಲಟ್',
+    selectLanguage: 'ಭಾಷೆ ಆಯ್ಕೆಮಾಡಿ',
+    voiceAssistant: 'ಧ್ವನಿ ಸಹಾಯಕ',
+    liveAssistant: 'ಲೈವ್ ಸಹಾಯಕ',
+    startCall: 'ಕರೆ ಪ್ರಾರಂಭಿಸಿ',
+    pastSessions: 'ಹಿಂದಿನ ಸೆಷನ್‌ಗಳು',
+  },
+  session: {
+    agentListening: 'ಸಹಾಯಕ ಕೇಳುತ್ತಿದೆ, ಪ್ರಶ್ನೆ ಕೇಳಿ',
+    sessionEnded: 'ಸೆಷನ್ ಕೊನೆಗೊಂಡಿದೆ',
+    agentDidNotJoin: 'ಸಹಾಯಕ ಕೊಠಡಿಗೆ ಸೇರಲಿಲ್ಲ. ',
+    agentDidNotInitialize: 'ಸಹಾಯಕ ಸಂಪರ್ಕಗೊಂಡಿತು ಆದರೆ ಪ್ರಾರಂಭ ಪೂರ್ಣಗೊಳ್ಳಲಿಲ್ಲ. ',
+    quickstartGuide: 'ತ್ವರಿತ ಪ್ರಾರಂಭ ಮಾರ್ಗದರ್ಶಿ ನೋಡಿ',
+    callEnded: 'ಕರೆ ಮುಗಿದಿದೆ',
+    downloadTranscript: 'ಪ್ರತಿಲಿಪಿ ಡೌನ್‌ಲೋಡ್ ಮಾಡಿ:',
+    reconnecting: 'ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ. ಮರುಸಂಪರ್ಕಿಸಲಾಗುತ್ತಿದೆ…',
+    connectionLost: 'ಕರೆ ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ.',
+    rejoin: 'ಮತ್ತೆ ಸೇರಿ',
+    agentImage: 'ಸಹಾಯಕ ಕಳುಹಿಸಿದ ಚಿತ್ರ',
+    closeImage: 'ಚಿತ್ರವನ್ನು ಮುಚ್ಚಿ',
+    leave: 'ಹೊರಡಿ',
+    queuedMessages: (count: number) => `ಮರುಸಂಪರ್ಕದ ನಂತರ ${count} ಸಂದೇಶ(ಗಳು) ಕಳುಹಿಸಲಾಗುತ್ತದೆ`,
+  },
+  toast: {
+    mediaDevicesError: 'ನಿಮ್ಮ ಮಾಧ್ಯಮ ಸಾಧನಗಳಲ್ಲಿ ದೋಷ ಕಂಡುಬಂದಿದೆ',
+    connectionError: 'ಸಹಾಯಕಕ್ಕೆ ಸಂಪರ್ಕಿಸುವಲ್ಲಿ ದೋಷ ಉಂಟಾಗಿದೆ',
+    preferencesSwitchError: 'ಸಹಾಯಕ ಬದಲಾವಣೆಯನ್ನು ದೃಢೀಕರಿಸಲಿಲ್ಲ',
+    tokenRefreshError: 'ನಿಮ್ಮ ಸೆಷನ್ ನವೀಕರಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+    tokenRefreshHint: 'ಕರೆ ಮುಂದುವರಿಯುತ್ತದೆ, ಆದರೆ ಅದು ಕಡಿತಗೊಂಡರೆ ಹೊಸ ಕರೆ ಪ್ರಾರಂಭಿಸಬೇಕಾಗುತ್ತದೆ.',
+    interruptError: 'ಸಹಾಯಕವನ್ನು ನಿಲ್ಲಿಸಲಾಗಲಿಲ್ಲ',
+  },
+  controlBar: {
+    controls: 'ಧ್ವನಿ ಸಹಾಯಕ ನಿಯಂತ್ರಣಗಳು',
+    toggleChat: 'ಚಾಟ್ ತೆರೆಯಿರಿ/ಮುಚ್ಚಿರಿ',
+    toggleReport: 'ರೋಗನಿರ್ಣಯ ವರದಿ ತೆರೆಯಿರಿ/ಮುಚ್ಚಿರಿ',
+    exportTranscript: 'ಪ್ರತಿಲಿಪಿ ರಫ್ತು ಮಾಡಿ',
+    language: 'ಸಂಭಾಷಣೆಯ ಭಾಷೆ',
+    assistantMode: 'ಸಹಾಯಕ ವಿಧಾನ',
+    switching: 'ಬದಲಾಯಿಸಲಾಗುತ್ತಿದೆ…',
+    endCall: 'ಕರೆ ಕೊನೆಗೊಳಿಸಿ',
+    end: 'ಕೊನೆ',
+    repairProgress: 'ದುರಸ್ತಿ ಪ್ರಗತಿ',
+    pushToTalk: 'ಒತ್ತಿ ಮಾತನಾಡಿ',
+    holdToTalk: 'ಮಾತನಾಡಲು ಒತ್ತಿ ಹಿಡಿಯಿರಿ',
+    holdToTalkHint: 'ಅಥವಾ Space ಒತ್ತಿ ಹಿಡಿಯಿರಿ',
+    talking: 'ಕೇಳಿಸಿಕೊಳ್ಳಲಾಗುತ್ತಿದೆ… ಕಳುಹಿಸಲು ಬಿಡಿ',
+    stopAgent: 'ನಿಲ್ಲಿಸಿ',
+    stopAgentLabel: 'ಸಹಾಯಕದ ಉತ್ತರವನ್ನು ನಿಲ್ಲಿಸಿ',
+    cameraRequested: 'ಸಹಾಯಕ ವಾಹನವನ್ನು ನೋಡಲು ಬಯಸುತ್ತದೆ',
+    turnOnCamera: 'ಕ್ಯಾಮೆರಾ ಆನ್ ಮಾಡಿ',
+  },
+  chat: {
+    placeholder: 'ಏನಾದರೂ ಟೈಪ್ ಮಾಡಿ...',
+    send: 'ಕಳುಹಿಸಿ',
+    malformedMessage: 'ಸಹಾಯಕದ ಸಂದೇಶ ದೋಷಪೂರಿತವಾಗಿದೆ',
+    vinDetected: 'VIN ಪತ್ತೆಯಾಗಿದೆ; ವಾಹನದ ವಿವರಗಳು ನವೀಕರಿಸಲ್ಪಡುತ್ತವೆ',
+    interrupted: 'ಪೂರ್ಣಗೊಳ್ಳುವ ಮೊದಲೇ ನಿಲ್ಲಿಸಲಾಗಿದೆ',
+    dtcSystems: {
+      powertrain: 'ಪವರ್‌ಟ್ರೇನ್',
+      body: 'ಬಾಡಿ',
+      chassis: 'ಚಾಸಿಸ್',
+      network: 'ನೆಟ್‌ವರ್ಕ್',
+    },
+    dtcCategories: {
+      generic: 'ಸಾಮಾನ್ಯ (SAE)',
+      manufacturer: 'ತಯಾರಕ-ನಿರ್ದಿಷ್ಟ',
+    },
+    dtcUnlisted: 'ಕೋಡ್ ಪಟ್ಟಿಯಲ್ಲಿ ಇಲ್ಲ',
+    dtcAsk: 'ಈ ಕೋಡ್ ವಿವರಿಸಲು ಸಹಾಯಕನನ್ನು ಕೇಳಿ',
+    dtcExplain: (code: string) => `ದೋಷ ಕೋಡ್ ${code} ವಿವರಿಸಿ`,
+  },
+  snapshot: {
+    take: 'ಸಹಾಯಕನಿಗಾಗಿ ಫೋಟೋ ತೆಗೆಯಿರಿ',
+    title: 'ಸಹಾಯಕನಿಗಾಗಿ ಫೋಟೋ',
+    cropHint: 'ಕತ್ತರಿಸಲು ಫೋಟೋ ಮೇಲೆ ಎಳೆಯಿರಿ',
+    resetCrop: 'ಕತ್ತರಿಸುವಿಕೆ ಮರುಹೊಂದಿಸಿ',
+    captionPlaceholder: 'ಸಹಾಯಕ ಏನನ್ನು ನೋಡಬೇಕು?',
+    defaultCaption: 'ತಂತ್ರಜ್ಞರಿಂದ ಫೋಟೋ',
+    retake: 'ಮತ್ತೆ ತೆಗೆಯಿರಿ',
+    cancel: 'ರದ್ದುಮಾಡಿ',
+    send: 'ಕಳುಹಿಸಿ',
+    captureError: 'ಕ್ಯಾಮೆರಾದಿಂದ ಫೋಟೋ ತೆಗೆಯಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+    sendError: 'ಫೋಟೋ ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+  },
+  attachments: {
+    attach: 'ಚಿತ್ರಗಳು, PDF ಅಥವಾ ಸ್ಕ್ಯಾನ್ ಲಾಗ್‌ಗಳನ್ನು ಲಗತ್ತಿಸಿ',
+    remove: (name: string) => `${name} ತೆಗೆದುಹಾಕಿ`,
+    rejected: 'ಫೈಲ್ ಲಗತ್ತಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+    unsupportedType: (name: string) => `${name} ಚಿತ್ರ, PDF ಅಥವಾ ಲಾಗ್ ಫೈಲ್ ಅಲ್ಲ.`,
+    tooLarge: (name: string, limit: string) => `${name} ${limit} ಗಿಂತ ದೊಡ್ಡದಾಗಿದೆ.`,
+    sending: (percent: string) => `ಕಳುಹಿಸಲಾಗುತ್ತಿದೆ ${percent}`,
+    receiving: (percent: string) => `ಸ್ವೀಕರಿಸಲಾಗುತ್ತಿದೆ ${percent}`,
+    cancelled: 'ರದ್ದುಗೊಂಡಿದೆ',
+    failed: 'ವಿಫಲವಾಗಿದೆ',
+    cancel: 'ಅಪ್‌ಲೋಡ್ ರದ್ದುಮಾಡಿ',
+    sendError: 'ಲಗತ್ತನ್ನು ಕಳುಹಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+  },
+  history: {
+    title: 'ಹಿಂದಿನ ಸೆಷನ್‌ಗಳು',
+    localOnly: 'ಸೆಷನ್‌ಗಳನ್ನು ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಮಾತ್ರ ಉಳಿಸಲಾಗುತ್ತದೆ.',
+    newSession: 'ಹೊಸ ಸೆಷನ್',
+    allSessions: 'ಎಲ್ಲಾ ಸೆಷನ್‌ಗಳು',
+    search: 'ವಾಹನ ಅಥವಾ VIN ಮೂಲಕ ಹುಡುಕಿ',
+    date: 'ಪ್ರಾರಂಭಿಸಿದ ದಿನಾಂಕ',
+    clearFilters: 'ಫಿಲ್ಟರ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ',
+    loading: 'ಸೆಷನ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗುತ್ತಿದೆ…',
+    empty: 'ಇನ್ನೂ ಯಾವುದೇ ಸೆಷನ್‌ಗಳಿಲ್ಲ. ಏನಾದರೂ ಮಾತನಾಡಿದ ನಂತರ ಕರೆಗಳು ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತವೆ.',
+    noMatches: 'ನಿಮ್ಮ ಹುಡುಕಾಟಕ್ಕೆ ಯಾವುದೇ ಸೆಷನ್ ಹೊಂದಿಕೆಯಾಗುವುದಿಲ್ಲ.',
+    loadError: 'ಸೆಷನ್ ಇತಿಹಾಸವನ್ನು ಲೋಡ್ ಮಾಡಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+    notFound: 'ಈ ಸೆಷನ್ ಈ ಬ್ರೌಸರ್‌ನ ಇತಿಹಾಸದಲ್ಲಿ ಇಲ್ಲ.',
+    noVehicle: 'ಯಾವುದೇ ವಾಹನ ದಾಖಲಾಗಿಲ್ಲ',
+    duration: (minutes: number, seconds: number) =>
+      minutes > 0 ? `${minutes} ನಿ ${seconds} ಸೆ` : `${seconds} ಸೆ`,
+    messages: (count: number) => `${count} ಸಂದೇಶ(ಗಳು)`,
+    reports: (count: number) => `${count} ವರದಿ(ಗಳು)`,
+    viewReport: 'ವರದಿ ನೋಡಿ',
+    delete: 'ಸೆಷನ್ ಅಳಿಸಿ',
+    deleteConfirm: 'ಈ ಸೆಷನ್ ಅನ್ನು ಇತಿಹಾಸದಿಂದ ಅಳಿಸಬೇಕೆ?',
+    deleteError: 'ಸೆಷನ್ ಅಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+  },
+  vehicle: {
+    title: 'ವಾಹನ',
+    add: 'ವಾಹನದ ವಿವರಗಳನ್ನು ಸೇರಿಸಿ',
+    optional: 'ಐಚ್ಛಿಕ, ಸಹಾಯಕನಿಗೆ ನಿಖರವಾದ ರೋಗನಿರ್ಣಯಕ್ಕೆ ಸಹಾಯ ಮಾಡುತ್ತದೆ',
+    edit: 'ವಾಹನದ ವಿವರಗಳನ್ನು ಸಂಪಾದಿಸಿ',
+    none: 'ವಾಹನದ ವಿವರಗಳಿಲ್ಲ',
+    vin: 'VIN',
+    make: 'ತಯಾರಕ',
+    model: 'ಮಾದರಿ',
+    year: 'ವರ್ಷ',
+    engine: 'ಎಂಜಿನ್',
+    mileage: 'ಮೈಲೇಜ್ (ಕಿ.ಮೀ)',
+    fuelType: 'ಇಂಧನ ಪ್ರಕಾರ',
+    fuelTypes: {
+      petrol: 'ಪೆಟ್ರೋಲ್',
+      diesel: 'ಡೀಸೆಲ್',
+      cng: 'CNG',
+      lpg: 'LPG',
+      hybrid: 'ಹೈಬ್ರಿಡ್',
+      ev: 'ವಿದ್ಯುತ್',
+    },
+    save: 'ಉಳಿಸಿ',
+    cancel: 'ರದ್ದುಮಾಡಿ',
+    updateError: 'ವಾಹನದ ವಿವರಗಳನ್ನು ನವೀಕರಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ',
+    invalid: 'ಹೈಲೈಟ್ ಮಾಡಿದ ಕ್ಷೇತ್ರವನ್ನು ಪರಿಶೀಲಿಸಿ.',
+    vinErrors: {
+      length: 'VIN 17 ಅಕ್ಷರಗಳನ್ನು ಹೊಂದಿರುತ್ತದೆ.',
+      characters: 'VIN ಕೇವಲ ಅಕ್ಷರಗಳು ಮತ್ತು ಅಂಕಿಗಳನ್ನು ಬಳಸುತ್ತದೆ, I, O ಅಥವಾ Q ಇಲ್ಲ.',
+      checkDigit: 'VIN ಪರಿಶೀಲನಾ ಅಂಕಿ ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ. ಟೈಪಿಂಗ್ ತಪ್ಪುಗಳನ್ನು ಪರಿಶೀಲಿಸಿ.',
+    },
+  },
+  report: {
+    title: 'ರೋಗನಿರ್ಣಯ ವರದಿ',
+    close: 'ರೋಗನಿರ್ಣಯ ವರದಿ ಮುಚ್ಚಿರಿ',
+    version: 'ವರದಿ ಆವೃತ್ತಿ',
+    received: 'ಸ್ವೀಕರಿಸಲಾಗಿದೆ',
+    session: 'ಸೆಷನ್',
+    language: 'ಭಾಷೆ',
+    showChanges: 'ಹಿಂದಿನ ಆವೃತ್ತಿಯಿಂದ ಬದಲಾವಣೆಗಳನ್ನು ತೋರಿಸಿ',
+    changesSince: (version: number) => `v${version} ನಂತರದ ಬದಲಾವಣೆಗಳು`,
+    rootCauses: 'ಮೂಲ ಕಾರಣಗಳು',
+    repairSteps: 'ದುರಸ್ತಿ ಹಂತಗಳು',
+    webSources: 'ವೆಬ್ ಮೂಲಗಳು',
+    videos: 'ವೀಡಿಯೊಗಳು',
+    noChanges: 'ಮೂಲ ಕಾರಣಗಳು, ಹಂತಗಳು, ಮೂಲಗಳು ಅಥವಾ ವೀಡಿಯೊಗಳಲ್ಲಿ ಬದಲಾವಣೆ ಇಲ್ಲ.',
+    exportVersion: 'ಈ ಆವೃತ್ತಿಯನ್ನು ರಫ್ತು ಮಾಡಿ',
+    print: 'ಮುದ್ರಿಸಿ',
+    markdown: 'Markdown',
+    pdf: 'PDF',
+    pdfViaPrint: 'PDF (ಮುದ್ರಣ)',
+    pdfViaPrintHint:
+      'PDF ರಫ್ತು ಈ ಲಿಪಿಯನ್ನು ತೋರಿಸಲಾರದು, ಆದ್ದರಿಂದ ಮುದ್ರಣ ನೋಟ ತೆರೆಯುತ್ತದೆ. ಅಲ್ಲಿ “Save as PDF” ಆಯ್ಕೆಮಾಡಿ.',
+    pdfExportError: 'ವರದಿಯನ್ನು PDF ಆಗಿ ರಫ್ತು ಮಾಡಲಾಗಲಿಲ್ಲ',
+    analysis: 'ರೋಗನಿರ್ಣಯ ವಿಶ್ಲೇಷಣೆ',
+    webSourcesTitle: 'ವೆಬ್ ಮೂಲಗಳು',
+    videosTitle: 'ರೋಗನಿರ್ಣಯ ವೀಡಿಯೊಗಳು',
+    unreadable: 'ಈ ವರದಿಯನ್ನು ಓದಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+    empty: 'ಯಾವುದೇ ರೋಗನಿರ್ಣಯ ಮಾಹಿತಿ ಲಭ್ಯವಿಲ್ಲ.',
+    confidence: 'ವಿಶ್ವಾಸ',
+    safetyNotes: 'ಸುರಕ್ಷತಾ ಸೂಚನೆಗಳು',
+    tools: 'ಅಗತ್ಯ ಉಪಕರಣಗಳು',
+    parts: 'ಬಿಡಿಭಾಗಗಳು',
+    partName: 'ಬಿಡಿಭಾಗ',
+    partNumber: 'ಭಾಗ ಸಂಖ್ಯೆ',
+    quantity: 'ಪ್ರಮಾಣ',
+    specifications: 'ವಿಶಿಷ್ಟತೆಗಳು',
+    specName: 'ಅಂಶ',
+    specValue: 'ಮೌಲ್ಯ',
+    completedAt: (time: string) => `${time} ಕ್ಕೆ ಮುಗಿದಿದೆ`,
+    addNote: 'ಟಿಪ್ಪಣಿ ಸೇರಿಸಿ',
+    editNote: 'ಟಿಪ್ಪಣಿ ಸಂಪಾದಿಸಿ',
+    notePlaceholder: 'ಈ ಹಂತಕ್ಕೆ ಟಿಪ್ಪಣಿ',
+  },
+  dtc: {
+    injectorCircuit: (cylinder: number) => `ಇಂಜೆಕ್ಟರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ - ಸಿಲಿಂಡರ್ ${cylinder}`,
+    misfire: (cylinder: number) => `ಸಿಲಿಂಡರ್ ${cylinder} ಮಿಸ್‌ಫೈರ್ ಪತ್ತೆಯಾಗಿದೆ`,
+    descriptions: {
+      P0010: 'ಕ್ಯಾಮ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ ಆಕ್ಚುಯೇಟರ್ ಸರ್ಕ್ಯೂಟ್ (ಬ್ಯಾಂಕ್ 1)',
+      P0011: 'ಕ್ಯಾಮ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ - ಟೈಮಿಂಗ್ ಅತಿ ಮುಂದೆ ಅಥವಾ ಸಿಸ್ಟಮ್ ಕಾರ್ಯಕ್ಷಮತೆ (ಬ್ಯಾಂಕ್ 1)',
+      P0016: 'ಕ್ರ್ಯಾಂಕ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ - ಕ್ಯಾಮ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ ಹೊಂದಾಣಿಕೆ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ A)',
+      P0087: 'ಫ್ಯೂಯಲ್ ರೈಲ್/ಸಿಸ್ಟಮ್ ಒತ್ತಡ - ತುಂಬಾ ಕಡಿಮೆ',
+      P0100: 'ಮಾಸ್ ಅಥವಾ ವಾಲ್ಯೂಮ್ ಏರ್ ಫ್ಲೋ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0101: 'ಮಾಸ್ ಅಥವಾ ವಾಲ್ಯೂಮ್ ಏರ್ ಫ್ಲೋ ಸರ್ಕ್ಯೂಟ್ ರೇಂಜ್/ಕಾರ್ಯಕ್ಷಮತೆ ಸಮಸ್ಯೆ',
+      P0102: 'ಮಾಸ್ ಅಥವಾ ವಾಲ್ಯೂಮ್ ಏರ್ ಫ್ಲೋ ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ಇನ್‌ಪುಟ್',
+      P0103: 'ಮಾಸ್ ಅಥವಾ ವಾಲ್ಯೂಮ್ ಏರ್ ಫ್ಲೋ ಸರ್ಕ್ಯೂಟ್ ಹೆಚ್ಚಿನ ಇನ್‌ಪುಟ್',
+      P0106:
+        'ಮ್ಯಾನಿಫೋಲ್ಡ್ ಅಬ್ಸಲ್ಯೂಟ್ ಪ್ರೆಶರ್/ಬ್ಯಾರೋಮೆಟ್ರಿಕ್ ಪ್ರೆಶರ್ ಸರ್ಕ್ಯೂಟ್ ರೇಂಜ್/ಕಾರ್ಯಕ್ಷಮತೆ ಸಮಸ್ಯೆ',
+      P0107: 'ಮ್ಯಾನಿಫೋಲ್ಡ್ ಅಬ್ಸಲ್ಯೂಟ್ ಪ್ರೆಶರ್/ಬ್ಯಾರೋಮೆಟ್ರಿಕ್ ಪ್ರೆಶರ್ ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ಇನ್‌ಪುಟ್',
+      P0108: 'ಮ್ಯಾನಿಫೋಲ್ಡ್ ಅಬ್ಸಲ್ಯೂಟ್ ಪ್ರೆಶರ್/ಬ್ಯಾರೋಮೆಟ್ರಿಕ್ ಪ್ರೆಶರ್ ಸರ್ಕ್ಯೂಟ್ ಹೆಚ್ಚಿನ ಇನ್‌ಪುಟ್',
+      P0110: 'ಇನ್‌ಟೇಕ್ ಏರ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0112: 'ಇನ್‌ಟೇಕ್ ಏರ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ಇನ್‌ಪುಟ್',
+      P0113: 'ಇನ್‌ಟೇಕ್ ಏರ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ಹೆಚ್ಚಿನ ಇನ್‌ಪುಟ್',
+      P0115: 'ಎಂಜಿನ್ ಕೂಲೆಂಟ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0116: 'ಎಂಜಿನ್ ಕೂಲೆಂಟ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ರೇಂಜ್/ಕಾರ್ಯಕ್ಷಮತೆ ಸಮಸ್ಯೆ',
+      P0117: 'ಎಂಜಿನ್ ಕೂಲೆಂಟ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ಇನ್‌ಪುಟ್',
+      P0118: 'ಎಂಜಿನ್ ಕೂಲೆಂಟ್ ತಾಪಮಾನ ಸರ್ಕ್ಯೂಟ್ ಹೆಚ್ಚಿನ ಇನ್‌ಪುಟ್',
+      P0120: 'ಥ್ರಾಟಲ್/ಪೆಡಲ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್/ಸ್ವಿಚ್ A ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0121: 'ಥ್ರಾಟಲ್/ಪೆಡಲ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್/ಸ್ವಿಚ್ A ಸರ್ಕ್ಯೂಟ್ ರೇಂಜ್/ಕಾರ್ಯಕ್ಷಮತೆ ಸಮಸ್ಯೆ',
+      P0122: 'ಥ್ರಾಟಲ್/ಪೆಡಲ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್/ಸ್ವಿಚ್ A ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ಇನ್‌ಪುಟ್',
+      P0123: 'ಥ್ರಾಟಲ್/ಪೆಡಲ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್/ಸ್ವಿಚ್ A ಸರ್ಕ್ಯೂಟ್ ಹೆಚ್ಚಿನ ಇನ್‌ಪುಟ್',
+      P0125: 'ಕ್ಲೋಸ್ಡ್ ಲೂಪ್ ಫ್ಯೂಯಲ್ ನಿಯಂತ್ರಣಕ್ಕೆ ಕೂಲೆಂಟ್ ತಾಪಮಾನ ಸಾಕಾಗುತ್ತಿಲ್ಲ',
+      P0128: 'ಕೂಲೆಂಟ್ ಥರ್ಮೋಸ್ಟಾಟ್ (ಕೂಲೆಂಟ್ ತಾಪಮಾನ ಥರ್ಮೋಸ್ಟಾಟ್ ನಿಯಂತ್ರಣ ತಾಪಮಾನಕ್ಕಿಂತ ಕಡಿಮೆ)',
+      P0130: 'O2 ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 1)',
+      P0131: 'O2 ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ವೋಲ್ಟೇಜ್ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 1)',
+      P0132: 'O2 ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ಹೆಚ್ಚಿನ ವೋಲ್ಟೇಜ್ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 1)',
+      P0133: 'O2 ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ನಿಧಾನ ಪ್ರತಿಕ್ರಿಯೆ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 1)',
+      P0134: 'O2 ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್‌ನಲ್ಲಿ ಚಟುವಟಿಕೆ ಪತ್ತೆಯಾಗಿಲ್ಲ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 1)',
+      P0135: 'O2 ಸೆನ್ಸರ್ ಹೀಟರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 1)',
+      P0136: 'O2 ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 2)',
+      P0141: 'O2 ಸೆನ್ಸರ್ ಹೀಟರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ (ಬ್ಯಾಂಕ್ 1 ಸೆನ್ಸರ್ 2)',
+      P0171: 'ಸಿಸ್ಟಮ್ ತುಂಬಾ ಲೀನ್ (ಬ್ಯಾಂಕ್ 1)',
+      P0172: 'ಸಿಸ್ಟಮ್ ತುಂಬಾ ರಿಚ್ (ಬ್ಯಾಂಕ್ 1)',
+      P0174: 'ಸಿಸ್ಟಮ್ ತುಂಬಾ ಲೀನ್ (ಬ್ಯಾಂಕ್ 2)',
+      P0175: 'ಸಿಸ್ಟಮ್ ತುಂಬಾ ರಿಚ್ (ಬ್ಯಾಂಕ್ 2)',
+      P0200: 'ಇಂಜೆಕ್ಟರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0217: 'ಎಂಜಿನ್ ಅತಿಯಾಗಿ ಬಿಸಿಯಾದ ಸ್ಥಿತಿ',
+      P0230: 'ಫ್ಯೂಯಲ್ ಪಂಪ್ ಪ್ರೈಮರಿ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0234: 'ಟರ್ಬೋಚಾರ್ಜರ್/ಸೂಪರ್‌ಚಾರ್ಜರ್ ಓವರ್‌ಬೂಸ್ಟ್ ಸ್ಥಿತಿ',
+      P0299: 'ಟರ್ಬೋಚಾರ್ಜರ್/ಸೂಪರ್‌ಚಾರ್ಜರ್ ಅಂಡರ್‌ಬೂಸ್ಟ್',
+      P0300: 'ಯಾದೃಚ್ಛಿಕ/ಹಲವು ಸಿಲಿಂಡರ್ ಮಿಸ್‌ಫೈರ್ ಪತ್ತೆಯಾಗಿದೆ',
+      P0325: 'ನಾಕ್ ಸೆನ್ಸರ್ 1 ಸರ್ಕ್ಯೂಟ್ ದೋಷ (ಬ್ಯಾಂಕ್ 1 ಅಥವಾ ಏಕ ಸೆನ್ಸರ್)',
+      P0327: 'ನಾಕ್ ಸೆನ್ಸರ್ 1 ಸರ್ಕ್ಯೂಟ್ ಕಡಿಮೆ ಇನ್‌ಪುಟ್ (ಬ್ಯಾಂಕ್ 1 ಅಥವಾ ಏಕ ಸೆನ್ಸರ್)',
+      P0335: 'ಕ್ರ್ಯಾಂಕ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್ A ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0336: 'ಕ್ರ್ಯಾಂಕ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್ A ಸರ್ಕ್ಯೂಟ್ ರೇಂಜ್/ಕಾರ್ಯಕ್ಷಮತೆ',
+      P0340: 'ಕ್ಯಾಮ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0341: 'ಕ್ಯಾಮ್‌ಶಾಫ್ಟ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ರೇಂಜ್/ಕಾರ್ಯಕ್ಷಮತೆ',
+      P0351: 'ಇಗ್ನಿಷನ್ ಕಾಯಿಲ್ A ಪ್ರೈಮರಿ/ಸೆಕೆಂಡರಿ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0352: 'ಇಗ್ನಿಷನ್ ಕಾಯಿಲ್ B ಪ್ರೈಮರಿ/ಸೆಕೆಂಡರಿ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0380: 'ಗ್ಲೋ ಪ್ಲಗ್/ಹೀಟರ್ ಸರ್ಕ್ಯೂಟ್ A ದೋಷ',
+      P0400: 'ಎಕ್ಸಾಸ್ಟ್ ಗ್ಯಾಸ್ ರಿಸರ್ಕ್ಯುಲೇಷನ್ ಫ್ಲೋ ದೋಷ',
+      P0401: 'ಎಕ್ಸಾಸ್ಟ್ ಗ್ಯಾಸ್ ರಿಸರ್ಕ್ಯುಲೇಷನ್ ಫ್ಲೋ ಸಾಕಷ್ಟಿಲ್ಲ ಎಂದು ಪತ್ತೆಯಾಗಿದೆ',
+      P0402: 'ಎಕ್ಸಾಸ್ಟ್ ಗ್ಯಾಸ್ ರಿಸರ್ಕ್ಯುಲೇಷನ್ ಫ್ಲೋ ಅತಿಯಾಗಿದೆ ಎಂದು ಪತ್ತೆಯಾಗಿದೆ',
+      P0403: 'ಎಕ್ಸಾಸ್ಟ್ ಗ್ಯಾಸ್ ರಿಸರ್ಕ್ಯುಲೇಷನ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0420: 'ಕ್ಯಾಟಲಿಸ್ಟ್ ಸಿಸ್ಟಮ್ ದಕ್ಷತೆ ಮಿತಿಗಿಂತ ಕಡಿಮೆ (ಬ್ಯಾಂಕ್ 1)',
+      P0430: 'ಕ್ಯಾಟಲಿಸ್ಟ್ ಸಿಸ್ಟಮ್ ದಕ್ಷತೆ ಮಿತಿಗಿಂತ ಕಡಿಮೆ (ಬ್ಯಾಂಕ್ 2)',
+      P0440: 'ಇವಾಪೊರೇಟಿವ್ ಎಮಿಷನ್ ನಿಯಂತ್ರಣ ಸಿಸ್ಟಮ್ ದೋಷ',
+      P0441: 'ಇವಾಪೊರೇಟಿವ್ ಎಮಿಷನ್ ನಿಯಂತ್ರಣ ಸಿಸ್ಟಮ್ ತಪ್ಪಾದ ಪರ್ಜ್ ಫ್ಲೋ',
+      P0442: 'ಇವಾಪೊರೇಟಿವ್ ಎಮಿಷನ್ ನಿಯಂತ್ರಣ ಸಿಸ್ಟಮ್‌ನಲ್ಲಿ ಸೋರಿಕೆ ಪತ್ತೆಯಾಗಿದೆ (ಸಣ್ಣ ಸೋರಿಕೆ)',
+      P0446: 'ಇವಾಪೊರೇಟಿವ್ ಎಮಿಷನ್ ನಿಯಂತ್ರಣ ಸಿಸ್ಟಮ್ ವೆಂಟ್ ಕಂಟ್ರೋಲ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0455: 'ಇವಾಪೊರೇಟಿವ್ ಎಮಿಷನ್ ನಿಯಂತ್ರಣ ಸಿಸ್ಟಮ್‌ನಲ್ಲಿ ಸೋರಿಕೆ ಪತ್ತೆಯಾಗಿದೆ (ದೊಡ್ಡ ಸೋರಿಕೆ)',
+      P0456: 'ಇವಾಪೊರೇಟಿವ್ ಎಮಿಷನ್ ನಿಯಂತ್ರಣ ಸಿಸ್ಟಮ್‌ನಲ್ಲಿ ಸೋರಿಕೆ ಪತ್ತೆಯಾಗಿದೆ (ಅತಿ ಸಣ್ಣ ಸೋರಿಕೆ)',
+      P0500: 'ವಾಹನ ವೇಗ ಸೆನ್ಸರ್ ದೋಷ',
+      P0505: 'ಐಡಲ್ ಕಂಟ್ರೋಲ್ ಸಿಸ್ಟಮ್ ದೋಷ',
+      P0506: 'ಐಡಲ್ ಕಂಟ್ರೋಲ್ ಸಿಸ್ಟಮ್ RPM ನಿರೀಕ್ಷೆಗಿಂತ ಕಡಿಮೆ',
+      P0507: 'ಐಡಲ್ ಕಂಟ್ರೋಲ್ ಸಿಸ್ಟಮ್ RPM ನಿರೀಕ್ಷೆಗಿಂತ ಹೆಚ್ಚು',
+      P0520: 'ಎಂಜಿನ್ ಆಯಿಲ್ ಪ್ರೆಶರ್ ಸೆನ್ಸರ್/ಸ್ವಿಚ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0560: 'ಸಿಸ್ಟಮ್ ವೋಲ್ಟೇಜ್ ದೋಷ',
+      P0562: 'ಸಿಸ್ಟಮ್ ವೋಲ್ಟೇಜ್ ಕಡಿಮೆ',
+      P0563: 'ಸಿಸ್ಟಮ್ ವೋಲ್ಟೇಜ್ ಹೆಚ್ಚು',
+      P0600: 'ಸೀರಿಯಲ್ ಕಮ್ಯುನಿಕೇಷನ್ ಲಿಂಕ್ ದೋಷ',
+      P0601: 'ಆಂತರಿಕ ಕಂಟ್ರೋಲ್ ಮಾಡ್ಯೂಲ್ ಮೆಮೊರಿ ಚೆಕ್‌ಸಮ್ ದೋಷ',
+      P0700: 'ಟ್ರಾನ್ಸ್‌ಮಿಷನ್ ಕಂಟ್ರೋಲ್ ಸಿಸ್ಟಮ್ ದೋಷ',
+      P0705: 'ಟ್ರಾನ್ಸ್‌ಮಿಷನ್ ರೇಂಜ್ ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ (PRNDL ಇನ್‌ಪುಟ್)',
+      P0715: 'ಇನ್‌ಪುಟ್/ಟರ್ಬೈನ್ ಸ್ಪೀಡ್ ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0720: 'ಔಟ್‌ಪುಟ್ ಸ್ಪೀಡ್ ಸೆನ್ಸರ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0740: 'ಟಾರ್ಕ್ ಕನ್ವರ್ಟರ್ ಕ್ಲಚ್ ಸರ್ಕ್ಯೂಟ್ ದೋಷ',
+      P0750: 'ಶಿಫ್ಟ್ ಸೊಲೆನಾಯ್ಡ್ A ದೋಷ',
+      P2002: 'ಡೀಸೆಲ್ ಪಾರ್ಟಿಕ್ಯುಲೇಟ್ ಫಿಲ್ಟರ್ ದಕ್ಷತೆ ಮಿತಿಗಿಂತ ಕಡಿಮೆ (ಬ್ಯಾಂಕ್ 1)',
+      P2135: 'ಥ್ರಾಟಲ್/ಪೆಡಲ್ ಪೊಸಿಷನ್ ಸೆನ್ಸರ್/ಸ್ವಿಚ್ A/B ವೋಲ್ಟೇಜ್ ಹೊಂದಾಣಿಕೆ',
+      P242F: 'ಡೀಸೆಲ್ ಪಾರ್ಟಿಕ್ಯುಲೇಟ್ ಫಿಲ್ಟರ್ ಅಡಚಣೆ - ಬೂದಿ ಸಂಗ್ರಹ',
+      U0001: 'ಹೈ ಸ್ಪೀಡ್ CAN ಕಮ್ಯುನಿಕೇಷನ್ ಬಸ್',
+      U0100: 'ECM/PCM A ಜೊತೆ ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ',
+      U0101: 'TCM ಜೊತೆ ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ',
+      U0121: 'ಆಂಟಿ-ಲಾಕ್ ಬ್ರೇಕ್ ಸಿಸ್ಟಮ್ (ABS) ಕಂಟ್ರೋಲ್ ಮಾಡ್ಯೂಲ್ ಜೊತೆ ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ',
+      U0140: 'ಬಾಡಿ ಕಂಟ್ರೋಲ್ ಮಾಡ್ಯೂಲ್ ಜೊತೆ ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ',
+      U0155: 'ಇನ್‌ಸ್ಟ್ರುಮೆಂಟ್ ಪ್ಯಾನಲ್ ಕ್ಲಸ್ಟರ್ (IPC) ಕಂಟ್ರೋಲ್ ಮಾಡ್ಯೂಲ್ ಜೊತೆ ಸಂಪರ್ಕ ಕಡಿತಗೊಂಡಿದೆ',
+    },
+  },
+};
+
+const hi: Messages = {
+  welcome: {
+    tagline: 'मैकेनिक का विश्वसनीय सह-पायलट',
+    selectLanguage: 'भाषा चुनें',
+    voiceAssistant: 'ध्वनि सहायक',
+    liveAssistant: 'लाइव सहायक',
+    startCall: 'कॉल शुरू करें',
+    pastSessions: 'पिछले सत्र',
+  },
+  session: {
+    agentListening: 'सहायक सुन रहा है, कोई प्रश्न पूछें',
+    sessionEnded: 'सत्र समाप्त हुआ',
+    agentDidNotJoin: 'सहायक कमरे में शामिल नहीं हुआ। ',
+    agentDidNotInitialize: 'सहायक जुड़ गया लेकिन आरंभ पूरा नहीं हुआ। ',
+    quickstartGuide: 'क्विकस्टार्ट गाइड देखें',
+    callEnded: 'कॉल समाप्त हुई',
+    downloadTranscript: 'ट्रांसक्रिप्ट डाउनलोड करें:',
+    reconnecting: 'कनेक्शन टूट गया। दोबारा कनेक्ट हो रहा है…',
+    connectionLost: 'कॉल डिस्कनेक्ट हो गई।',
+    rejoin: 'फिर से जुड़ें',
+    agentImage: 'सहायक द्वारा भेजी गई तस्वीर',
+    closeImage: 'तस्वीर बंद करें',
+    leave: 'छोड़ें',
+    queuedMessages: (count: number) => `दोबारा कनेक्ट होने पर ${count} संदेश भेजे जाएंगे`,
+  },
+  toast: {
+    mediaDevicesError: 'आपके मीडिया उपकरणों में त्रुटि आई',
+    connectionError: 'सहायक से कनेक्ट करने में त्रुटि हुई',
+    preferencesSwitchError: 'सहायक ने बदलाव की पुष्टि नहीं की',
+    tokenRefreshError: 'आपका सत्र नवीनीकृत नहीं हो सका',
+    tokenRefreshHint: 'कॉल जारी है, लेकिन अगर यह कट जाती है तो आपको नई कॉल शुरू करनी होगी।',
+    interruptError: 'सहायक को रोका नहीं जा सका',
+  },
+  controlBar: {
+    controls: 'ध्वनि सहायक नियंत्रण',
+    toggleChat: 'चैट खोलें/बंद करें',
+    toggleReport: 'निदान रिपोर्ट खोलें/बंद करें',
+    exportTranscript: 'ट्रांसक्रिप्ट निर्यात करें',
+    language: 'बातचीत की भाषा',
+    assistantMode: 'सहायक मोड',
+    switching: 'बदला जा रहा है…',
+    endCall: 'कॉल समाप्त करें',
+    end: 'समाप्त',
+    repairProgress: 'मरम्मत की प्रगति',
+    pushToTalk: 'दबाकर बोलें',
+    holdToTalk: 'बोलने के लिए दबाए रखें',
+    holdToTalkHint: 'या Space दबाए रखें',
+    talking: 'सुना जा रहा है… भेजने के लिए छोड़ें',
+    stopAgent: 'रोकें',
+    stopAgentLabel: 'सहायक का जवाब रोकें',
+    cameraRequested: 'सहायक वाहन देखना चाहता है',
+    turnOnCamera: 'कैमरा चालू करें',
+  },
+  chat: {
+    placeholder: 'कुछ लिखें...',
+    send: 'भेजें',
+    malformedMessage: 'सहायक का संदेश त्रुटिपूर्ण है',
+    vinDetected: 'VIN मिला; वाहन विवरण अपडेट किए जाएंगे',
+    interrupted: 'पूरा होने से पहले रोका गया',
+    dtcSystems: {
+      powertrain: 'पावरट्रेन',
+      body: 'बॉडी',
+      chassis: 'चेसिस',
+      network: 'नेटवर्क',
+    },
+    dtcCategories: {
+      generic: 'सामान्य (SAE)',
+      manufacturer: 'निर्माता-विशिष्ट',
+    },
+    dtcUnlisted: 'कोड सूची में नहीं है',
+    dtcAsk: 'इस कोड को समझाने के लिए सहायक से पूछें',
+    dtcExplain: (code: string) => `ट्रबल कोड ${code} समझाइए`,
+  },
+  snapshot: {
+    take: 'सहायक के लिए फ़ोटो लें',
+    title: 'सहायक के लिए फ़ोटो',
+    cropHint: 'क्रॉप करने के लिए फ़ोटो पर खींचें',
+    resetCrop: 'क्रॉप रीसेट करें',
+    captionPlaceholder: 'सहायक को क्या देखना चाहिए?',
+    defaultCaption: 'तकनीशियन की फ़ोटो',
+    retake: 'फिर से लें',
+    cancel: 'रद्द करें',
+    send: 'भेजें',
+    captureError: 'कैमरे से फ़ोटो नहीं ली जा सकी',
+    sendError: 'फ़ोटो नहीं भेजी जा सकी',
+  },
+  attachments: {
+    attach: 'चित्र, PDF या स्कैन लॉग संलग्न करें',
+    remove: (name: string) => `${name} हटाएँ`,
+    rejected: 'फ़ाइल संलग्न नहीं की जा सकी',
+    unsupportedType: (name: string) => `${name} चित्र, PDF या लॉग फ़ाइल नहीं है।`,
+    tooLarge: (name: string, limit: string) => `${name} ${limit} से बड़ी है।`,
+    sending: (percent: string) => `भेजा जा रहा है ${percent}`,
+    receiving: (percent: string) => `प्राप्त हो रहा है ${percent}`,
+    cancelled: 'रद्द किया गया',
+    failed: 'विफल',
+    cancel: 'अपलोड रद्द करें',
+    sendError: 'संलग्नक नहीं भेजा जा सका',
+  },
+  history: {
+    title: 'पिछले सत्र',
+    localOnly: 'सत्र केवल इसी ब्राउज़र में सहेजे जाते हैं।',
+    newSession: 'नया सत्र',
+    allSessions: 'सभी सत्र',
+    search: 'वाहन या VIN से खोजें',
+    date: 'शुरू होने की तारीख',
+    clearFilters: 'फ़िल्टर हटाएँ',
+    loading: 'सत्र लोड हो रहे हैं…',
+    empty: 'अभी कोई सत्र नहीं। कुछ बोले जाने के बाद कॉल यहाँ दिखाई देंगी।',
+    noMatches: 'आपकी खोज से कोई सत्र मेल नहीं खाता।',
+    loadError: 'सत्र इतिहास लोड नहीं हो सका',
+    notFound: 'यह सत्र इस ब्राउज़र के इतिहास में नहीं है।',
+    noVehicle: 'कोई वाहन दर्ज नहीं',
+    duration: (minutes: number, seconds: number) =>
+      minutes > 0 ? `${minutes} मि ${seconds} से` : `${seconds} से`,
+    messages: (count: number) => `${count} संदेश`,
+    reports: (count: number) => `${count} रिपोर्ट`,
+    viewReport: 'रिपोर्ट देखें',
+    delete: 'सत्र हटाएँ',
+    deleteConfirm: 'इस सत्र को इतिहास से हटाएँ?',
+    deleteError: 'सत्र हटाया नहीं जा सका',
+  },
+  vehicle: {
+    title: 'वाहन',
+    add: 'वाहन विवरण जोड़ें',
+    optional: 'वैकल्पिक, सहायक को सटीक निदान में मदद करता है',
+    edit: 'वाहन विवरण संपादित करें',
+    none: 'कोई वाहन विवरण नहीं',
+    vin: 'VIN',
+    make: 'निर्माता',
+    model: 'मॉडल',
+    year: 'वर्ष',
+    engine: 'इंजन',
+    mileage: 'माइलेज (किमी)',
+    fuelType: 'ईंधन प्रकार',
+    fuelTypes: {
+      petrol: 'पेट्रोल',
+      diesel: 'डीज़ल',
+      cng: 'CNG',
+      lpg: 'LPG',
+      hybrid: 'हाइब्रिड',
+      ev: 'इलेक्ट्रिक',
+    },
+    save: 'सहेजें',
+    cancel: 'रद्द करें',
+    updateError: 'वाहन विवरण अपडेट नहीं हो सका',
+    invalid: 'हाइलाइट किए गए फ़ील्ड की जाँच करें।',
+    vinErrors: {
+      length: 'VIN में 17 अक्षर होते हैं।',
+      characters: 'VIN में केवल अक्षर और अंक होते हैं, I, O या Q नहीं।',
+      checkDigit: 'VIN का चेक अंक मेल नहीं खाता। टाइपिंग की गलती जाँचें।',
+    },
+  },
+  report: {
+    title: 'निदान रिपोर्ट',
+    close: 'निदान रिपोर्ट बंद करें',
+    version: 'रिपोर्ट संस्करण',
+    received: 'प्राप्त हुआ',
+    session: 'सत्र',
+    language: 'भाषा',
+    showChanges: 'पिछले संस्करण से बदलाव दिखाएँ',
+    changesSince: (version: number) => `v${version} के बाद के बदलाव`,
+    rootCauses: 'मूल कारण',
+    repairSteps: 'मरम्मत के चरण',
+    webSources: 'वेब स्रोत',
+    videos: 'वीडियो',
+    noChanges: 'मूल कारणों, चरणों, स्रोतों या वीडियो में कोई बदलाव नहीं।',
+    exportVersion: 'यह संस्करण निर्यात करें',
+    print: 'प्रिंट करें',
+    markdown: 'Markdown',
+    pdf: 'PDF',
+    pdfViaPrint: 'PDF (प्रिंट)',
+    pdfViaPrintHint:
+      'PDF निर्यात इस लिपि को नहीं दिखा सकता, इसलिए प्रिंट व्यू खुलता है। वहाँ “Save as PDF” चुनें।',
+    pdfExportError: 'रिपोर्ट को PDF के रूप में निर्यात नहीं किया जा सका',
+    analysis: 'निदान विश्लेषण',
+    webSourcesTitle: 'वेब स्रोत',
+    videosTitle: 'निदान वीडियो',
+    unreadable: 'यह रिपोर्ट पढ़ी नहीं जा सकी।',
+    empty: 'कोई निदान डेटा उपलब्ध नहीं है।',
+    confidence: 'विश्वास',
+    safetyNotes: 'सुरक्षा सूचनाएँ',
+    tools: 'आवश्यक औज़ार',
+    parts: 'पुर्ज़े',
+    partName: 'पुर्ज़ा',
+    partNumber: 'पार्ट नंबर',
+    quantity: 'मात्रा',
+    specifications: 'विनिर्देश',
+    specName: 'मद',
+    specValue: 'मान',
+    completedAt: (time: string) => `${time} पर पूरा हुआ`,
+    addNote: 'नोट जोड़ें',
+    editNote: 'नोट संपादित करें',
+    notePlaceholder: 'इस चरण के लिए नोट',
+  },
+  dtc: {
+    injectorCircuit: (cylinder: number) => `इंजेक्टर सर्किट खराबी - सिलेंडर ${cylinder}`,
+    misfire: (cylinder: number) => `सिलेंडर ${cylinder} में मिसफ़ायर मिला`,
+    descriptions: {
+      P0010: 'कैमशाफ्ट पोज़िशन एक्चुएटर सर्किट (बैंक 1)',
+      P0011: 'कैमशाफ्ट पोज़िशन - टाइमिंग बहुत एडवांस या सिस्टम परफ़ॉर्मेंस (बैंक 1)',
+      P0016: 'क्रैंकशाफ्ट पोज़िशन - कैमशाफ्ट पोज़िशन सहसंबंध (बैंक 1 सेंसर A)',
+      P0087: 'फ़्यूल रेल/सिस्टम प्रेशर - बहुत कम',
+      P0100: 'मास या वॉल्यूम एयर फ़्लो सर्किट खराबी',
+      P0101: 'मास या वॉल्यूम एयर फ़्लो सर्किट रेंज/परफ़ॉर्मेंस समस्या',
+      P0102: 'मास या वॉल्यूम एयर फ़्लो सर्किट कम इनपुट',
+      P0103: 'मास या वॉल्यूम एयर फ़्लो सर्किट उच्च इनपुट',
+      P0106: 'मैनिफ़ोल्ड एब्सोल्यूट प्रेशर/बैरोमेट्रिक प्रेशर सर्किट रेंज/परफ़ॉर्मेंस समस्या',
+      P0107: 'मैनिफ़ोल्ड एब्सोल्यूट प्रेशर/बैरोमेट्रिक प्रेशर सर्किट कम इनपुट',
+      P0108: 'मैनिफ़ोल्ड एब्सोल्यूट प्रेशर/बैरोमेट्रिक प्रेशर सर्किट उच्च इनपुट',
+      P0110: 'इनटेक एयर तापमान सर्किट खराबी',
+      P0112: 'इनटेक एयर तापमान सर्किट कम इनपुट',
+      P0113: 'इनटेक एयर तापमान सर्किट उच्च इनपुट',
+      P0115: 'इंजन कूलेंट तापमान सर्किट खराबी',
+      P0116: 'इंजन कूलेंट तापमान सर्किट रेंज/परफ़ॉर्मेंस समस्या',
+      P0117: 'इंजन कूलेंट तापमान सर्किट कम इनपुट',
+      P0118: 'इंजन कूलेंट तापमान सर्किट उच्च इनपुट',
+      P0120: 'थ्रॉटल/पेडल पोज़िशन सेंसर/स्विच A सर्किट खराबी',
+      P0121: 'थ्रॉटल/पेडल पोज़िशन सेंसर/स्विच A सर्किट रेंज/परफ़ॉर्मेंस समस्या',
+      P0122: 'थ्रॉटल/पेडल पोज़िशन सेंसर/स्विच A सर्किट कम इनपुट',
+      P0123: 'थ्रॉटल/पेडल पोज़िशन सेंसर/स्विच A सर्किट उच्च इनपुट',
+      P0125: 'क्लोज़्ड लूप फ़्यूल कंट्रोल के लिए कूलेंट तापमान अपर्याप्त',
+      P0128: 'कूलेंट थर्मोस्टेट (कूलेंट तापमान थर्मोस्टेट नियंत्रण तापमान से कम)',
+      P0130: 'O2 सेंसर सर्किट खराबी (बैंक 1 सेंसर 1)',
+      P0131: 'O2 सेंसर सर्किट कम वोल्टेज (बैंक 1 सेंसर 1)',
+      P0132: 'O2 सेंसर सर्किट उच्च वोल्टेज (बैंक 1 सेंसर 1)',
+      P0133: 'O2 सेंसर सर्किट धीमी प्रतिक्रिया (बैंक 1 सेंसर 1)',
+      P0134: 'O2 सेंसर सर्किट में कोई गतिविधि नहीं मिली (बैंक 1 सेंसर 1)',
+      P0135: 'O2 सेंसर हीटर सर्किट खराबी (बैंक 1 सेंसर 1)',
+      P0136: 'O2 सेंसर सर्किट खराबी (बैंक 1 सेंसर 2)',
+      P0141: 'O2 सेंसर हीटर सर्किट खराबी (बैंक 1 सेंसर 2)',
+      P0171: 'सिस्टम बहुत लीन (बैंक 1)',
+      P0172: 'सिस्टम बहुत रिच (बैंक 1)',
+      P0174: 'सिस्टम बहुत लीन (बैंक 2)',
+      P0175: 'सिस्टम बहुत रिच (बैंक 2)',
+      P0200: 'इंजेक्टर सर्किट खराबी',
+      P0217: 'इंजन ओवरहीटिंग की स्थिति',
+      P0230: 'फ़्यूल पंप प्राइमरी सर्किट खराबी',
+      P0234: 'टर्बोचार्जर/सुपरचार्जर ओवरबूस्ट की स्थिति',
+      P0299: 'टर्बोचार्जर/सुपरचार्जर अंडरबूस्ट',
+      P0300: 'रैंडम/कई सिलेंडरों में मिसफ़ायर मिला',
+      P0325: 'नॉक सेंसर 1 सर्किट खराबी (बैंक 1 या एकल सेंसर)',
+      P0327: 'नॉक सेंसर 1 सर्किट कम इनपुट (बैंक 1 या एकल सेंसर)',
+      P0335: 'क्रैंकशाफ्ट पोज़िशन सेंसर A सर्किट खराबी',
+      P0336: 'क्रैंकशाफ्ट पोज़िशन सेंसर A सर्किट रेंज/परफ़ॉर्मेंस',
+      P0340: 'कैमशाफ्ट पोज़िशन सेंसर सर्किट खराबी',
+      P0341: 'कैमशाफ्ट पोज़िशन सेंसर सर्किट रेंज/परफ़ॉर्मेंस',
+      P0351: 'इग्निशन कॉइल A प्राइमरी/सेकेंडरी सर्किट खराबी',
+      P0352: 'इग्निशन कॉइल B प्राइमरी/सेकेंडरी सर्किट खराबी',
+      P0380: 'ग्लो प्लग/हीटर सर्किट A खराबी',
+      P0400: 'एग्ज़ॉस्ट गैस रीसर्कुलेशन फ़्लो खराबी',
+      P0401: 'एग्ज़ॉस्ट गैस रीसर्कुलेशन फ़्लो अपर्याप्त पाया गया',
+      P0402: 'एग्ज़ॉस्ट गैस रीसर्कुलेशन फ़्लो अत्यधिक पाया गया',
+      P0403: 'एग्ज़ॉस्ट गैस रीसर्कुलेशन सर्किट खराबी',
+      P0420: 'कैटलिस्ट सिस्टम दक्षता सीमा से कम (बैंक 1)',
+      P0430: 'कैटलिस्ट सिस्टम दक्षता सीमा से कम (बैंक 2)',
+      P0440: 'इवैपोरेटिव एमिशन कंट्रोल सिस्टम खराबी',
+      P0441: 'इवैपोरेटिव एमिशन कंट्रोल सिस्टम गलत पर्ज फ़्लो',
+      P0442: 'इवैपोरेटिव एमिशन कंट्रोल सिस्टम में लीक मिला (छोटा लीक)',
+      P0446: 'इवैपोरेटिव एमिशन कंट्रोल सिस्टम वेंट कंट्रोल सर्किट खराबी',
+      P0455: 'इवैपोरेटिव एमिशन कंट्रोल सिस्टम में लीक मिला (बड़ा लीक)',
+      P0456: 'इवैपोरेटिव एमिशन कंट्रोल सिस्टम में लीक मिला (बहुत छोटा लीक)',
+      P0500: 'वाहन गति सेंसर खराबी',
+      P0505: 'आइडल कंट्रोल सिस्टम खराबी',
+      P0506: 'आइडल कंट्रोल सिस्टम RPM अपेक्षा से कम',
+      P0507: 'आइडल कंट्रोल सिस्टम RPM अपेक्षा से अधिक',
+      P0520: 'इंजन ऑयल प्रेशर सेंसर/स्विच सर्किट खराबी',
+      P0560: 'सिस्टम वोल्टेज खराबी',
+      P0562: 'सिस्टम वोल्टेज कम',
+      P0563: 'सिस्टम वोल्टेज अधिक',
+      P0600: 'सीरियल कम्युनिकेशन लिंक खराबी',
+      P0601: 'आंतरिक कंट्रोल मॉड्यूल मेमोरी चेकसम त्रुटि',
+      P0700: 'ट्रांसमिशन कंट्रोल सिस्टम खराबी',
+      P0705: 'ट्रांसमिशन रेंज सेंसर सर्किट खराबी (PRNDL इनपुट)',
+      P0715: 'इनपुट/टर्बाइन स्पीड सेंसर सर्किट खराबी',
+      P0720: 'आउटपुट स्पीड सेंसर सर्किट खराबी',
+      P0740: 'टॉर्क कन्वर्टर क्लच सर्किट खराबी',
+      P0750: 'शिफ़्ट सोलेनॉइड A खराबी',
+      P2002: 'डीज़ल पार्टिकुलेट फ़िल्टर दक्षता सीमा से कम (बैंक 1)',
+      P2135: 'थ्रॉटल/पेडल पोज़िशन सेंसर/स्विच A/B वोल्टेज सहसंबंध',
+      P242F: 'डीज़ल पार्टिकुलेट फ़िल्टर रुकावट - राख का जमाव',
+      U0001: 'हाई स्पीड CAN कम्युनिकेशन बस',
+      U0100: 'ECM/PCM A से संपर्क टूटा',
+      U0101: 'TCM से संपर्क टूटा',
+      U0121: 'एंटी-लॉक ब्रेक सिस्टम (ABS) कंट्रोल मॉड्यूल से संपर्क टूटा',
+      U0140: 'बॉडी कंट्रोल मॉड्यूल से संपर्क टूटा',
+      U0155: 'इंस्ट्रूमेंट पैनल क्लस्टर (IPC) कंट्रोल मॉड्यूल से संपर्क टूटा',
+    },
+  },
+};
+
+const ta: Messages = {
+  welcome: {
+    tagline: 'மேக்கானிக்கிற்கான நம்பத்தகுந்த துணை விமானி',
+    selectLanguage: 'மொழியைத் தேர்ந்தெடுக்கவும்',
+    voiceAssistant: 'குரல் உதவியாளர்',
+    liveAssistant: 'நேரடி உதவியாளர்',
+    startCall: 'அழைப்பை தொடங்குக',
+    pastSessions: 'முந்தைய அமர்வுகள்',
+  },
+  session: {
+    agentListening: 'உதவியாளர் கேட்கிறது, ஒரு கேள்வி கேளுங்கள்',
+    sessionEnded: 'அமர்வு முடிந்தது',
+    agentDidNotJoin: 'உதவியாளர் அறையில் சேரவில்லை. ',
+    agentDidNotInitialize: 'உதவியாளர் இணைந்தது ஆனால் தொடக்கம் முடிவடையவில்லை. ',
+    quickstartGuide: 'விரைவு தொடக்க வழிகாட்டியைப் பார்க்கவும்',
+    callEnded: 'அழைப்பு முடிந்தது',
+    downloadTranscript: 'உரையாடல் பதிவைப் பதிவிறக்கவும்:',
+    reconnecting: 'இணைப்பு துண்டிக்கப்பட்டது. மீண்டும் இணைக்கப்படுகிறது…',
+    connectionLost: 'அழைப்பு துண்டிக்கப்பட்டது.',
+    rejoin: 'மீண்டும் சேர்',
+    agentImage: 'உதவியாளர் அனுப்பிய படம்',
+    closeImage: 'படத்தை மூடு',
+    leave: 'வெளியேறு',
+    queuedMessages: (count: number) => `மீண்டும் இணைந்ததும் ${count} செய்தி(கள்) அனுப்பப்படும்`,
+  },
+  toast: {
+    mediaDevicesError: 'உங்கள் ஊடக சாதனங்களில் பிழை ஏற்பட்டது',
+    connectionError: 'உதவியாளருடன் இணைப்பதில் பிழை ஏற்பட்டது',
+    preferencesSwitchError: 'உதவியாளர் மாற்றத்தை உறுதிப்படுத்தவில்லை',
+    tokenRefreshError: 'உங்கள் அமர்வைப் புதுப்பிக்க முடியவில்லை',
+    tokenRefreshHint: 'அழைப்பு தொடரும், ஆனால் துண்டிக்கப்பட்டால் புதிய அழைப்பைத் தொடங்க வேண்டும்.',
+    interruptError: 'உதவியாளரை நிறுத்த முடியவில்லை',
+  },
+  controlBar: {
+    controls: 'குரல் உதவியாளர் கட்டுப்பாடுகள்',
+    toggleChat: 'அரட்டையைத் திற/மூடு',
+    toggleReport: 'கண்டறிதல் அறிக்கையைத் திற/மூடு',
+    exportTranscript: 'உரையாடல் பதிவை ஏற்றுமதி செய்',
+    language: 'உரையாடல் மொழி',
+    assistantMode: 'உதவியாளர் முறை',
+    switching: 'மாற்றப்படுகிறது…',
+    endCall: 'அழைப்பை முடி',
+    end: 'முடி',
+    repairProgress: 'பழுதுபார்ப்பு முன்னேற்றம்',
+    pushToTalk: 'அழுத்திப் பேசு',
+    holdToTalk: 'பேச அழுத்திப் பிடிக்கவும்',
+    holdToTalkHint: 'அல்லது Space-ஐ அழுத்திப் பிடிக்கவும்',
+    talking: 'கேட்கப்படுகிறது… அனுப்ப விடுவிக்கவும்',
+    stopAgent: 'நிறுத்து',
+    stopAgentLabel: 'உதவியாளரின் பதிலை நிறுத்து',
+    cameraRequested: 'உதவியாளர் வாகனத்தைப் பார்க்க விரும்புகிறது',
+    turnOnCamera: 'கேமராவை இயக்கு',
+  },
+  chat: {
+    placeholder: 'ஏதாவது தட்டச்சு செய்யவும்...',
+    send: 'அனுப்பு',
+    malformedMessage: 'உதவியாளரின் செய்தி தவறான வடிவில் உள்ளது',
+    vinDetected: 'VIN கண்டறியப்பட்டது; வாகன விவரங்கள் புதுப்பிக்கப்படும்',
+    interrupted: 'முடிவதற்கு முன் நிறுத்தப்பட்டது',
+    dtcSystems: {
+      powertrain: 'பவர்டிரெயின்',
+      body: 'பாடி',
+      chassis: 'சேசிஸ்',
+      network: 'நெட்வொர்க்',
+    },
+    dtcCategories: {
+      generic: 'பொதுவானது (SAE)',
+      manufacturer: 'உற்பத்தியாளர் சார்ந்தது',
+    },
+    dtcUnlisted: 'குறியீட்டுப் பட்டியலில் இல்லை',
+    dtcAsk: 'இந்த குறியீட்டை விளக்க உதவியாளரிடம் கேளுங்கள்',
+    dtcExplain: (code: string) => `பிழைக் குறியீடு ${code} ஐ விளக்கவும்`,
+  },
+  snapshot: {
+    take: 'உதவியாளருக்கு புகைப்படம் எடு',
+    title: 'உதவியாளருக்கான புகைப்படம்',
+    cropHint: 'செதுக்க புகைப்படத்தின் மீது இழுக்கவும்',
+    resetCrop: 'செதுக்கலை மீட்டமை',
+    captionPlaceholder: 'உதவியாளர் எதைப் பார்க்க வேண்டும்?',
+    defaultCaption: 'தொழில்நுட்பவியலாளரின் புகைப்படம்',
+    retake: 'மீண்டும் எடு',
+    cancel: 'ரத்துசெய்',
+    send: 'அனுப்பு',
+    captureError: 'கேமராவிலிருந்து புகைப்படம் எடுக்க முடியவில்லை',
+    sendError: 'புகைப்படத்தை அனுப்ப முடியவில்லை',
+  },
+  attachments: {
+    attach: 'படங்கள், PDF அல்லது ஸ்கேன் பதிவுகளை இணைக்கவும்',
+    remove: (name: string) => `${name} ஐ நீக்கு`,
+    rejected: 'கோப்பை இணைக்க முடியவில்லை',
+    unsupportedType: (name: string) => `${name} படம், PDF அல்லது பதிவுக் கோப்பு அல்ல.`,
+    tooLarge: (name: string, limit: string) => `${name} ${limit} ஐ விடப் பெரியது.`,
+    sending: (percent: string) => `அனுப்பப்படுகிறது ${percent}`,
+    receiving: (percent: string) => `பெறப்படுகிறது ${percent}`,
+    cancelled: 'ரத்துசெய்யப்பட்டது',
+    failed: 'தோல்வியடைந்தது',
+    cancel: 'பதிவேற்றத்தை ரத்துசெய்',
+    sendError: 'இணைப்பை அனுப்ப முடியவில்லை',
+  },
+  history: {
+    title: 'முந்தைய அமர்வுகள்',
+    localOnly: 'அமர்வுகள் இந்த உலாவியில் மட்டுமே சேமிக்கப்படும்.',
+    newSession: 'புதிய அமர்வு',
+    allSessions: 'அனைத்து அமர்வுகள்',
+    search: 'வாகனம் அல்லது VIN மூலம் தேடவும்',
+    date: 'தொடங்கிய தேதி',
+    clearFilters: 'வடிப்பான்களை அழி',
+    loading: 'அமர்வுகள் ஏற்றப்படுகின்றன…',
+    empty: 'இன்னும் அமர்வுகள் இல்லை. ஏதாவது பேசிய பிறகு அழைப்புகள் இங்கே தோன்றும்.',
+    noMatches: 'உங்கள் தேடலுக்கு பொருந்தும் அமர்வுகள் இல்லை.',
+    loadError: 'அமர்வு வரலாற்றை ஏற்ற முடியவில்லை',
+    notFound: 'இந்த அமர்வு இந்த உலாவியின் வரலாற்றில் இல்லை.',
+    noVehicle: 'வாகனம் பதிவு செய்யப்படவில்லை',
+    duration: (minutes: number, seconds: number) =>
+      minutes > 0 ? `${minutes} நிமி ${seconds} வி` : `${seconds} வி`,
+    messages: (count: number) => `${count} செய்தி(கள்)`,
+    reports: (count: number) => `${count} அறிக்கை(கள்)`,
+    viewReport: 'அறிக்கையைப் பார்',
+    delete: 'அமர்வை நீக்கு',
+    deleteConfirm: 'இந்த அமர்வை வரலாற்றிலிருந்து நீக்கவா?',
+    deleteError: 'அமர்வை நீக்க முடியவில்லை',
+  },
+  vehicle: {
+    title: 'வாகனம்',
+    add: 'வாகன விவரங்களைச் சேர்',
+    optional: 'விருப்பத்தேர்வு, உதவியாளர் துல்லியமாகக் கண்டறிய உதவும்',
+    edit: 'வாகன விவரங்களைத் திருத்து',
+    none: 'வாகன விவரங்கள் இல்லை',
+    vin: 'VIN',
+    make: 'தயாரிப்பாளர்',
+    model: 'மாடல்',
+    year: 'ஆண்டு',
+    engine: 'எஞ்சின்',
+    mileage: 'ஓடிய தூரம் (கி.மீ)',
+    fuelType: 'எரிபொருள் வகை',
+    fuelTypes: {
+      petrol: 'பெட்ரோல்',
+      diesel: 'டீசல்',
+      cng: 'CNG',
+      lpg: 'LPG',
+      hybrid: 'ஹைப்ரிட்',
+      ev: 'மின்சாரம்',
+    },
+    save: 'சேமி',
+    cancel: 'ரத்துசெய்',
+    updateError: 'வாகன விவரங்களைப் புதுப்பிக்க முடியவில்லை',
+    invalid: 'முன்னிலைப்படுத்தப்பட்ட புலத்தைச் சரிபார்க்கவும்.',
+    vinErrors: {
+      length: 'VIN இல் 17 எழுத்துகள் இருக்கும்.',
+      characters: 'VIN எழுத்துகளும் எண்களும் மட்டுமே, I, O அல்லது Q இல்லை.',
+      checkDigit: 'VIN சரிபார்ப்பு இலக்கம் பொருந்தவில்லை. தட்டச்சுப் பிழைகளைச் சரிபார்க்கவும்.',
+    },
+  },
+  report: {
+    title: 'கண்டறிதல் அறிக்கை',
+    close: 'கண்டறிதல் அறிக்கையை மூடு',
+    version: 'அறிக்கை பதிப்பு',
+    received: 'பெறப்பட்டது',
+    session: 'அமர்வு',
+    language: 'மொழி',
+    showChanges: 'முந்தைய பதிப்பிலிருந்து மாற்றங்களைக் காட்டு',
+    changesSince: (version: number) => `v${version} முதல் மாற்றங்கள்`,
+    rootCauses: 'மூல காரணங்கள்',
+    repairSteps: 'பழுதுபார்ப்பு படிகள்',
+    webSources: 'இணைய ஆதாரங்கள்',
+    videos: 'வீடியோக்கள்',
+    noChanges: 'மூல காரணங்கள், படிகள், ஆதாரங்கள் அல்லது வீடியோக்களில் மாற்றம் இல்லை.',
+    exportVersion: 'இந்தப் பதிப்பை ஏற்றுமதி செய்',
+    print: 'அச்சிடு',
+    markdown: 'Markdown',
+    pdf: 'PDF',
+    pdfViaPrint: 'PDF (அச்சு)',
+    pdfViaPrintHint:
+      'PDF ஏற்றுமதியால் இந்த எழுத்துமுறையைக் காட்ட முடியாது, எனவே அச்சு காட்சி திறக்கும். அங்கே “Save as PDF” என்பதைத் தேர்ந்தெடுக்கவும்.',
+    pdfExportError: 'அறிக்கையை PDF ஆக ஏற்றுமதி செய்ய முடியவில்லை',
+    analysis: 'கண்டறிதல் பகுப்பாய்வு',
+    webSourcesTitle: 'இணைய ஆதாரங்கள்',
+    videosTitle: 'கண்டறிதல் வீடியோக்கள்',
+    unreadable: 'இந்த அறிக்கையைப் படிக்க முடியவில்லை.',
+    empty: 'கண்டறிதல் தரவு எதுவும் இல்லை.',
+    confidence: 'நம்பகத்தன்மை',
+    safetyNotes: 'பாதுகாப்புக் குறிப்புகள்',
+    tools: 'தேவையான கருவிகள்',
+    parts: 'உதிரிபாகங்கள்',
+    partName: 'உதிரிபாகம்',
+    partNumber: 'பாக எண்',
+    quantity: 'அளவு',
+    specifications: 'விவரக்குறிப்புகள்',
+    specName: 'உருப்படி',
+    specValue: 'மதிப்பு',
+    completedAt: (time: string) => `${time} மணிக்கு முடிந்தது`,
+    addNote: 'குறிப்பு சேர்',
+    editNote: 'குறிப்பைத் திருத்து',
+    notePlaceholder: 'இந்தப் படிக்கான குறிப்பு',
+  },
+  dtc: {
+    injectorCircuit: (cylinder: number) => `இன்ஜெக்டர் சர்க்யூட் கோளாறு - சிலிண்டர் ${cylinder}`,
+    misfire: (cylinder: number) => `சிலிண்டர் ${cylinder} மிஸ்ஃபயர் கண்டறியப்பட்டது`,
+    descriptions: {
+      P0010: 'கேம்ஷாஃப்ட் பொசிஷன் ஆக்சுவேட்டர் சர்க்யூட் (பேங்க் 1)',
+      P0011: 'கேம்ஷாஃப்ட் பொசிஷன் - டைமிங் அதிக முன்னேற்றம் அல்லது சிஸ்டம் செயல்திறன் (பேங்க் 1)',
+      P0016: 'கிராங்க்ஷாஃப்ட் பொசிஷன் - கேம்ஷாஃப்ட் பொசிஷன் தொடர்பு (பேங்க் 1 சென்சார் A)',
+      P0087: 'எரிபொருள் ரெயில்/சிஸ்டம் அழுத்தம் - மிகக் குறைவு',
+      P0100: 'மாஸ் அல்லது வால்யூம் ஏர் ஃப்ளோ சர்க்யூட் கோளாறு',
+      P0101: 'மாஸ் அல்லது வால்யூம் ஏர் ஃப்ளோ சர்க்யூட் வரம்பு/செயல்திறன் சிக்கல்',
+      P0102: 'மாஸ் அல்லது வால்யூம் ஏர் ஃப்ளோ சர்க்யூட் குறைந்த உள்ளீடு',
+      P0103: 'மாஸ் அல்லது வால்யூம் ஏர் ஃப்ளோ சர்க்யூட் அதிக உள்ளீடு',
+      P0106:
+        'மேனிஃபோல்ட் அப்சல்யூட் பிரஷர்/பாரோமெட்ரிக் பிரஷர் சர்க்யூட் வரம்பு/செயல்திறன் சிக்கல்',
+      P0107: 'மேனிஃபோல்ட் அப்சல்யூட் பிரஷர்/பாரோமெட்ரிக் பிரஷர் சர்க்யூட் குறைந்த உள்ளீடு',
+      P0108: 'மேனிஃபோல்ட் அப்சல்யூட் பிரஷர்/பாரோமெட்ரிக் பிரஷர் சர்க்யூட் அதிக உள்ளீடு',
+      P0110: 'இன்டேக் காற்று வெப்பநிலை சர்க்யூட் கோளாறு',
+      P0112: 'இன்டேக் காற்று வெப்பநிலை சர்க்யூட் குறைந்த உள்ளீடு',
+      P0113: 'இன்டேக் காற்று வெப்பநிலை சர்க்யூட் அதிக உள்ளீடு',
+      P0115: 'இன்ஜின் கூலன்ட் வெப்பநிலை சர்க்யூட் கோளாறு',
+      P0116: 'இன்ஜின் கூலன்ட் வெப்பநிலை சர்க்யூட் வரம்பு/செயல்திறன் சிக்கல்',
+      P0117: 'இன்ஜின் கூலன்ட் வெப்பநிலை சர்க்யூட் குறைந்த உள்ளீடு',
+      P0118: 'இன்ஜின் கூலன்ட் வெப்பநிலை சர்க்யூட் அதிக உள்ளீடு',
+      P0120: 'த்ராட்டில்/பெடல் பொசிஷன் சென்சார்/ஸ்விட்ச் A சர்க்யூட் கோளாறு',
+      P0121: 'த்ராட்டில்/பெடல் பொசிஷன் சென்சார்/ஸ்விட்ச் A சர்க்யூட் வரம்பு/செயல்திறன் சிக்கல்',
+      P0122: 'த்ராட்டில்/பெடல் பொசிஷன் சென்சார்/ஸ்விட்ச் A சர்க்யூட் குறைந்த உள்ளீடு',
+      P0123: 'த்ராட்டில்/பெடல் பொசிஷன் சென்சார்/ஸ்விட்ச் A சர்க்யூட் அதிக உள்ளீடு',
+      P0125: 'க்ளோஸ்டு லூப் எரிபொருள் கட்டுப்பாட்டிற்கு கூலன்ட் வெப்பநிலை போதவில்லை',
+      P0128:
+        'கூலன்ட் தெர்மோஸ்டாட் (கூலன்ட் வெப்பநிலை தெர்மோஸ்டாட் கட்டுப்பாட்டு வெப்பநிலைக்குக் கீழே)',
+      P0130: 'O2 சென்சார் சர்க்யூட் கோளாறு (பேங்க் 1 சென்சார் 1)',
+      P0131: 'O2 சென்சார் சர்க்யூட் குறைந்த மின்னழுத்தம் (பேங்க் 1 சென்சார் 1)',
+      P0132: 'O2 சென்சார் சர்க்யூட் அதிக மின்னழுத்தம் (பேங்க் 1 சென்சார் 1)',
+      P0133: 'O2 சென்சார் சர்க்யூட் மெதுவான பதில் (பேங்க் 1 சென்சார் 1)',
+      P0134: 'O2 சென்சார் சர்க்யூட்டில் செயல்பாடு கண்டறியப்படவில்லை (பேங்க் 1 சென்சார் 1)',
+      P0135: 'O2 சென்சார் ஹீட்டர் சர்க்யூட் கோளாறு (பேங்க் 1 சென்சார் 1)',
+      P0136: 'O2 சென்சார் சர்க்யூட் கோளாறு (பேங்க் 1 சென்சார் 2)',
+      P0141: 'O2 சென்சார் ஹீட்டர் சர்க்யூட் கோளாறு (பேங்க் 1 சென்சார் 2)',
+      P0171: 'சிஸ்டம் மிகவும் லீன் (பேங்க் 1)',
+      P0172: 'சிஸ்டம் மிகவும் ரிச் (பேங்க் 1)',
+      P0174: 'சிஸ்டம் மிகவும் லீன் (பேங்க் 2)',
+      P0175: 'சிஸ்டம் மிகவும் ரிச் (பேங்க் 2)',
+      P0200: 'இன்ஜெக்டர் சர்க்யூட் கோளாறு',
+      P0217: 'இன்ஜின் அதிக வெப்ப நிலை',
+      P0230: 'எரிபொருள் பம்ப் பிரைமரி சர்க்யூட் கோளாறு',
+      P0234: 'டர்போசார்ஜர்/சூப்பர்சார்ஜர் ஓவர்பூஸ்ட் நிலை',
+      P0299: 'டர்போசார்ஜர்/சூப்பர்சார்ஜர் அண்டர்பூஸ்ட்',
+      P0300: 'சீரற்ற/பல சிலிண்டர் மிஸ்ஃபயர் கண்டறியப்பட்டது',
+      P0325: 'நாக் சென்சார் 1 சர்க்யூட் கோளாறு (பேங்க் 1 அல்லது ஒற்றை சென்சார்)',
+      P0327: 'நாக் சென்சார் 1 சர்க்யூட் குறைந்த உள்ளீடு (பேங்க் 1 அல்லது ஒற்றை சென்சார்)',
+      P0335: 'கிராங்க்ஷாஃப்ட் பொசிஷன் சென்சார் A சர்க்யூட் கோளாறு',
+      P0336: 'கிராங்க்ஷாஃப்ட் பொசிஷன் சென்சார் A சர்க்யூட் வரம்பு/செயல்திறன்',
+      P0340: 'கேம்ஷாஃப்ட் பொசிஷன் சென்சார் சர்க்யூட் கோளாறு',
+      P0341: 'கேம்ஷாஃப்ட் பொசிஷன் சென்சார் சர்க்யூட் வரம்பு/செயல்திறன்',
+      P0351: 'இக்னிஷன் காயில் A பிரைமரி/செகண்டரி சர்க்யூட் கோளாறு',
+      P0352: 'இக்னிஷன் காயில் B பிரைமரி/செகண்டரி சர்க்யூட் கோளாறு',
+      P0380: 'க்ளோ பிளக்/ஹீட்டர் சர்க்யூட் A கோளாறு',
+      P0400: 'எக்ஸாஸ்ட் கேஸ் ரீசர்குலேஷன் ஃப்ளோ கோளாறு',
+      P0401: 'எக்ஸாஸ்ட் கேஸ் ரீசர்குலேஷன் ஃப்ளோ போதவில்லை என கண்டறியப்பட்டது',
+      P0402: 'எக்ஸாஸ்ட் கேஸ் ரீசர்குலேஷன் ஃப்ளோ அதிகம் என கண்டறியப்பட்டது',
+      P0403: 'எக்ஸாஸ்ட் கேஸ் ரீசர்குலேஷன் சர்க்யூட் கோளாறு',
+      P0420: 'கேட்டலிஸ்ட் சிஸ்டம் திறன் வரம்புக்குக் கீழே (பேங்க் 1)',
+      P0430: 'கேட்டலிஸ்ட் சிஸ்டம் திறன் வரம்புக்குக் கீழே (பேங்க் 2)',
+      P0440: 'எவாப்பரேட்டிவ் எமிஷன் கட்டுப்பாட்டு சிஸ்டம் கோளாறு',
+      P0441: 'எவாப்பரேட்டிவ் எமிஷன் கட்டுப்பாட்டு சிஸ்டம் தவறான பர்ஜ் ஃப்ளோ',
+      P0442: 'எவாப்பரேட்டிவ் எமிஷன் கட்டுப்பாட்டு சிஸ்டத்தில் கசிவு கண்டறியப்பட்டது (சிறிய கசிவு)',
+      P0446: 'எவாப்பரேட்டிவ் எமிஷன் கட்டுப்பாட்டு சிஸ்டம் வென்ட் கட்டுப்பாட்டு சர்க்யூட் கோளாறு',
+      P0455: 'எவாப்பரேட்டிவ் எமிஷன் கட்டுப்பாட்டு சிஸ்டத்தில் கசிவு கண்டறியப்பட்டது (பெரிய கசிவு)',
+      P0456:
+        'எவாப்பரேட்டிவ் எமிஷன் கட்டுப்பாட்டு சிஸ்டத்தில் கசிவு கண்டறியப்பட்டது (மிகச் சிறிய கசிவு)',
+      P0500: 'வாகன வேக சென்சார் கோளாறு',
+      P0505: 'ஐடில் கட்டுப்பாட்டு சிஸ்டம் கோளாறு',
+      P0506: 'ஐடில் கட்டுப்பாட்டு சிஸ்டம் RPM எதிர்பார்த்ததை விடக் குறைவு',
+      P0507: 'ஐடில் கட்டுப்பாட்டு சிஸ்டம் RPM எதிர்பார்த்ததை விட அதிகம்',
+      P0520: 'இன்ஜின் ஆயில் பிரஷர் சென்சார்/ஸ்விட்ச் சர்க்யூட் கோளாறு',
+      P0560: 'சிஸ்டம் மின்னழுத்தக் கோளாறு',
+      P0562: 'சிஸ்டம் மின்னழுத்தம் குறைவு',
+      P0563: 'சிஸ்டம் மின்னழுத்தம் அதிகம்',
+      P0600: 'சீரியல் கம்யூனிகேஷன் லிங்க் கோளாறு',
+      P0601: 'உள் கட்டுப்பாட்டு மாட்யூல் மெமரி செக்சம் பிழை',
+      P0700: 'டிரான்ஸ்மிஷன் கட்டுப்பாட்டு சிஸ்டம் கோளாறு',
+      P0705: 'டிரான்ஸ்மிஷன் ரேஞ்ச் சென்சார் சர்க்யூட் கோளாறு (PRNDL உள்ளீடு)',
+      P0715: 'இன்புட்/டர்பைன் வேக சென்சார் சர்க்யூட் கோளாறு',
+      P0720: 'அவுட்புட் வேக சென்சார் சர்க்யூட் கோளாறு',
+      P0740: 'டார்க் கன்வெர்ட்டர் கிளட்ச் சர்க்யூட் கோளாறு',
+      P0750: 'ஷிஃப்ட் சோலனாய்டு A கோளாறு',
+      P2002: 'டீசல் பார்ட்டிகுலேட் ஃபில்டர் திறன் வரம்புக்குக் கீழே (பேங்க் 1)',
+      P2135: 'த்ராட்டில்/பெடல் பொசிஷன் சென்சார்/ஸ்விட்ச் A/B மின்னழுத்தத் தொடர்பு',
+      P242F: 'டீசல் பார்ட்டிகுலேட் ஃபில்டர் அடைப்பு - சாம்பல் சேர்க்கை',
+      U0001: 'ஹை ஸ்பீடு CAN கம்யூனிகேஷன் பஸ்',
+      U0100: 'ECM/PCM A உடன் தொடர்பு துண்டிக்கப்பட்டது',
+      U0101: 'TCM உடன் தொடர்பு துண்டிக்கப்பட்டது',
+      U0121: 'ஆன்டி-லாக் பிரேக் சிஸ்டம் (ABS) கட்டுப்பாட்டு மாட்யூலுடன் தொடர்பு துண்டிக்கப்பட்டது',
+      U0140: 'பாடி கட்டுப்பாட்டு மாட்யூலுடன் தொடர்பு துண்டிக்கப்பட்டது',
+      U0155:
+        'இன்ஸ்ட்ருமென்ட் பேனல் கிளஸ்டர் (IPC) கட்டுப்பாட்டு மாட்யூலுடன் தொடர்பு துண்டிக்கப்பட்டது',
+    },
+  },
+};
+
+const CATALOG: Record<Language, Messages> = { en, kn, hi, ta };
+
+export function getMessages(language: Language | null | undefined): Messages {
+  return CATALOG[language ?? 'en'];
+}
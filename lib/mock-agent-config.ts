@@ -0,0 +1,7 @@
+/**
+ * `NEXT_PUBLIC_MOCK_AGENT` replaces the LiveKit server and agent with a scripted agent running in
+ * the browser. Set it to `true` for the default script or to the name of one in `MOCK_SCRIPTS`.
+ * The mock itself, in `./mock-agent`, is only imported when this is set.
+ */
+export const MOCK_AGENT = process.env.NEXT_PUBLIC_MOCK_AGENT;
+export const MOCK_AGENT_ENABLED = !!MOCK_AGENT && MOCK_AGENT !== 'false';
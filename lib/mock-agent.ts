@@ -0,0 +1,687 @@
+import {
+  ConnectionState,
+  DisconnectReason,
+  type LocalParticipant,
+  LocalTrackPublication,
+  ParticipantEvent,
+  Room,
+  RoomEvent,
+  RpcError,
+  Track,
+  TrackEvent,
+  isLocalTrack,
+} from 'livekit-client';
+import {
+  DataPacket,
+  DataPacket_Kind,
+  DataStream_Chunk,
+  DataStream_Header,
+  DataStream_OperationType,
+  DataStream_TextHeader,
+  DataStream_Trailer,
+  ParticipantInfo,
+  ParticipantInfo_Kind,
+  ParticipantInfo_State,
+  Room as RoomInfo,
+  RpcAck,
+  RpcRequest,
+  RpcResponse,
+  TrackInfo,
+  TrackSource,
+  TrackType,
+} from '@livekit/protocol';
+import type { ConnectionDetails } from '@/app/api/connection-details/route';
+import brakeNoise from '@/fixtures/mock-agent/brake-noise.json';
+import engineMisfire from '@/fixtures/mock-agent/engine-misfire.json';
+import { parseAgentPayload, payloadChatText } from './agent-payload';
+import {
+  CHAT_ATTACHMENT_TOPIC,
+  DIAGNOSTIC_REPORT_TOPIC,
+  END_TURN_RPC,
+  INTERRUPT_AGENT_RPC,
+  SET_SESSION_PREFERENCES_RPC,
+  START_TURN_RPC,
+} from './agent-protocol';
+import { MOCK_AGENT } from './mock-agent-config';
+
+/**
+ * One exchange of a mock script. `agent` is what the agent says: plain text, a payload string
+ * such as `VOICE:…|||TEXT:…`, or a payload object, which is sent as JSON. `report` is published
+ * on the diagnostic report topic after the agent has spoken, and then the client RPC methods in
+ * `calls` are called in order.
+ */
+export interface MockScriptTurn {
+  /** Spoken for the technician if they have not typed anything after a while. */
+  user?: string;
+  agent: string | object;
+  report?: unknown;
+  calls?: { method: string; payload?: unknown }[];
+}
+
+export interface MockScript {
+  greeting: string;
+  turns: MockScriptTurn[];
+  /** Said in reply to anything after the last turn. */
+  fallback: string;
+}
+
+export const MOCK_SCRIPTS: Record<string, MockScript> = {
+  'engine-misfire': engineMisfire,
+  'brake-noise': brakeNoise,
+};
+
+const DEFAULT_MOCK_SCRIPT = 'engine-misfire';
+
+const AGENT_IDENTITY = 'mock-agent';
+const AGENT_NAME = 'Mock agent';
+const TECHNICIAN_IDENTITY = 'technician';
+const TECHNICIAN_NAME = 'Technician';
+
+const JOIN_DELAY_MS = 800;
+const INITIALIZING_MS = 1200;
+const THINKING_MS = 1500;
+const WORD_INTERVAL_MS = 110;
+// How long the agent waits for the technician before speaking the script's line for them
+const USER_TURN_DELAY_MS = 6000;
+const RPC_DELAY_MS = 400;
+const RPC_RESPONSE_TIMEOUT_MS = 10_000;
+// A volume of 0 is not applied when the track is attached, so the voice is made inaudible instead
+const AGENT_VOLUME = 0.0001;
+
+class MockAgentAbortedError extends Error {
+  constructor() {
+    super('The mock session ended');
+    this.name = 'MockAgentAbortedError';
+  }
+}
+
+function delay(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new MockAgentAbortedError());
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeoutId);
+        reject(new MockAgentAbortedError());
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * A droning tone shaped into syllables while the agent speaks, so the audio visualizer has a
+ * signal to draw.
+ */
+class MockVoice {
+  private context = new AudioContext();
+  private oscillator = this.context.createOscillator();
+  private gain = this.context.createGain();
+  private destination = this.context.createMediaStreamDestination();
+  // Remote tracks read their stats from a receiver; this one's connection is never negotiated
+  private connection = new RTCPeerConnection();
+  readonly receiver = this.connection.addTransceiver('audio', { direction: 'recvonly' }).receiver;
+  readonly stream = this.destination.stream;
+  readonly track: MediaStreamTrack;
+
+  constructor() {
+    this.oscillator.type = 'sawtooth';
+    this.oscillator.frequency.value = 140;
+    this.gain.gain.value = 0;
+    this.oscillator.connect(this.gain).connect(this.destination);
+    this.oscillator.start();
+    this.track = this.stream.getAudioTracks()[0];
+    // Created outside a user gesture, so the context may start suspended
+    this.context.resume().catch(() => {});
+  }
+
+  speak(durationMs: number) {
+    const gain = this.gain.gain;
+    const start = this.context.currentTime;
+    const syllable = WORD_INTERVAL_MS / 1000;
+    gain.cancelScheduledValues(start);
+    for (let t = 0; t < durationMs / 1000; t += syllable) {
+      gain.linearRampToValueAtTime(0.3 + Math.random() * 0.7, start + t + syllable * 0.3);
+      gain.linearRampToValueAtTime(0.05, start + t + syllable * 0.9);
+    }
+    gain.linearRampToValueAtTime(0, start + durationMs / 1000 + 0.05);
+  }
+
+  silence() {
+    this.gain.gain.cancelScheduledValues(this.context.currentTime);
+    this.gain.gain.setValueAtTime(0, this.context.currentTime);
+  }
+
+  close() {
+    this.oscillator.stop();
+    this.track.stop();
+    this.connection.close();
+    this.context.close().catch(() => {});
+  }
+}
+
+type MockAgentState = 'initializing' | 'listening' | 'thinking' | 'speaking';
+
+/** A data stream from the technician, collected until its trailer arrives. */
+interface IncomingStream {
+  header: DataStream_Header;
+  chunks: Uint8Array[];
+}
+
+/**
+ * Plays a `MockScript` in a `MockRoom`, in place of a real agent worker. It joins and talks
+ * through the room's engine events, as the server would relay them, and hears whatever the
+ * local participant sends through the SDK's text, byte and RPC APIs.
+ */
+class MockAgent {
+  private controller = new AbortController();
+  private voice: MockVoice | null = null;
+  private joined = false;
+  private infoVersion = 0;
+  private state: MockAgentState = 'initializing';
+  // Set when the technician stops the reply in progress
+  private cancelled = false;
+  // `null` stands for a push-to-talk turn, whose words the mock cannot hear
+  private messages: (string | null)[] = [];
+  private onMessage: (() => void) | null = null;
+  private streams = new Map<string, IncomingStream>();
+  private pendingCalls = new Map<string, (response: RpcResponse) => void>();
+  private rpcHandlers: Record<string, (payload: string) => Promise<string>> = {
+    // Preferences are only acknowledged; the script carries on in the language it is written in
+    [SET_SESSION_PREFERENCES_RPC]: async () => {
+      await delay(RPC_DELAY_MS, this.controller.signal);
+      return 'ok';
+    },
+    [INTERRUPT_AGENT_RPC]: async () => {
+      if (this.state === 'thinking' || this.state === 'speaking') {
+        this.cancelled = true;
+        this.voice?.silence();
+      }
+      return 'ok';
+    },
+    [START_TURN_RPC]: async () => 'ok',
+    [END_TURN_RPC]: async () => {
+      this.hear(null);
+      return 'ok';
+    },
+  };
+
+  constructor(
+    private room: Room,
+    private script: MockScript
+  ) {}
+
+  start() {
+    this.run().catch((error) => {
+      if (error instanceof MockAgentAbortedError) return;
+      console.error('Mock agent failed:', error);
+    });
+  }
+
+  stop() {
+    this.controller.abort();
+    this.voice?.close();
+    this.voice = null;
+  }
+
+  /** A packet the local participant sent, which the server would have relayed to the agent. */
+  receive(packet: DataPacket) {
+    if (!this.joined) return;
+    const { value } = packet;
+    switch (value.case) {
+      case 'streamHeader':
+        this.streams.set(value.value.streamId, { header: value.value, chunks: [] });
+        break;
+      case 'streamChunk':
+        this.streams.get(value.value.streamId)?.chunks.push(value.value.content);
+        break;
+      case 'streamTrailer':
+        this.receiveStream(value.value.streamId);
+        break;
+      case 'rpcRequest':
+        this.answer(packet.participantIdentity, value.value).catch((error) => {
+          if (error instanceof MockAgentAbortedError) return;
+          console.error(`Mock agent failed to answer ${value.value.method}:`, error);
+        });
+        break;
+      case 'rpcResponse':
+        this.pendingCalls.get(value.value.requestId)?.(value.value);
+        break;
+    }
+  }
+
+  /** Something the technician typed or sent; it answers the current turn. */
+  private hear(text: string | null) {
+    this.messages.push(text);
+    this.onMessage?.();
+  }
+
+  private receiveStream(streamId: string) {
+    const stream = this.streams.get(streamId);
+    if (!stream) return;
+    this.streams.delete(streamId);
+    const { header, chunks } = stream;
+    if (header.topic === 'lk.chat') {
+      // Text streams are split on character boundaries
+      const decoder = new TextDecoder();
+      this.hear(chunks.map((chunk) => decoder.decode(chunk)).join(''));
+    } else if (header.topic === CHAT_ATTACHMENT_TOPIC) {
+      const name =
+        header.contentHeader.case === 'byteHeader' ? header.contentHeader.value.name : '';
+      this.hear(header.attributes.caption ?? name);
+    }
+  }
+
+  /** Acknowledge and answer an RPC call from the technician, as the agent's SDK would. */
+  private async answer(callerIdentity: string, request: RpcRequest) {
+    // The caller only starts waiting for the acknowledgement once the request has been sent
+    await delay(0, this.controller.signal);
+    this.deliver({ case: 'rpcAck', value: new RpcAck({ requestId: request.id }) }, AGENT_IDENTITY, [
+      callerIdentity,
+    ]);
+
+    let value: RpcResponse['value'];
+    try {
+      const handler = this.rpcHandlers[request.method];
+      if (!handler) throw RpcError.builtIn('UNSUPPORTED_METHOD');
+      value = { case: 'payload', value: await handler(request.payload) };
+    } catch (error) {
+      if (error instanceof MockAgentAbortedError) throw error;
+      const rpcError = error instanceof RpcError ? error : RpcError.builtIn('APPLICATION_ERROR');
+      value = { case: 'error', value: rpcError.toProto() };
+    }
+    this.deliver(
+      { case: 'rpcResponse', value: new RpcResponse({ requestId: request.id, value }) },
+      AGENT_IDENTITY,
+      [callerIdentity]
+    );
+  }
+
+  private async run() {
+    const { signal } = this.controller;
+    await delay(JOIN_DELAY_MS, signal);
+    this.join();
+    await delay(INITIALIZING_MS, signal);
+    this.setState('listening');
+    await this.speak(this.script.greeting);
+
+    for (const turn of this.script.turns) {
+      // `null` when the technician spoke instead of typing, or stayed silent for too long
+      const typed = await this.waitForTechnician(turn.user ? USER_TURN_DELAY_MS : undefined);
+      if (typed === null && turn.user) await this.speakForTechnician(turn.user);
+      await this.reply(turn);
+    }
+    while (true) {
+      await this.waitForTechnician();
+      await this.reply({ agent: this.script.fallback });
+    }
+  }
+
+  private participantInfo(state: MockAgentState, sid: string) {
+    return new ParticipantInfo({
+      sid,
+      identity: AGENT_IDENTITY,
+      name: AGENT_NAME,
+      kind: ParticipantInfo_Kind.AGENT,
+      state: ParticipantInfo_State.ACTIVE,
+      attributes: { 'lk.agent.state': state },
+      tracks: [
+        new TrackInfo({
+          sid: `TR_${sid}`,
+          type: TrackType.AUDIO,
+          source: TrackSource.MICROPHONE,
+        }),
+      ],
+      version: ++this.infoVersion,
+      joinedAt: BigInt(Math.floor(Date.now() / 1000)),
+    });
+  }
+
+  private join() {
+    const voice = new MockVoice();
+    this.voice = voice;
+    // The room matches incoming media to its participant by the stream's id
+    this.room.engine.emit('participantUpdate', [this.participantInfo(this.state, voice.stream.id)]);
+    this.room.engine.emit('mediaTrackAdded', voice.track, voice.stream, voice.receiver);
+    this.room.remoteParticipants.get(AGENT_IDENTITY)?.setVolume(AGENT_VOLUME);
+    this.joined = true;
+  }
+
+  private setState(state: MockAgentState) {
+    this.state = state;
+    if (!this.voice) return;
+    this.room.engine.emit('participantUpdate', [this.participantInfo(state, this.voice.stream.id)]);
+  }
+
+  private waitForTechnician(timeoutMs?: number) {
+    return new Promise<string | null>((resolve, reject) => {
+      const { signal } = this.controller;
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const finish = (message: string | null) => {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+        this.onMessage = null;
+        resolve(message);
+      };
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        this.onMessage = null;
+        reject(new MockAgentAbortedError());
+      };
+
+      if (this.messages.length > 0) return finish(this.messages.shift() ?? null);
+      if (signal.aborted) return onAbort();
+      this.onMessage = () => finish(this.messages.shift() ?? null);
+      signal.addEventListener('abort', onAbort, { once: true });
+      if (timeoutMs !== undefined) timeoutId = setTimeout(() => finish(null), timeoutMs);
+    });
+  }
+
+  private async reply(turn: MockScriptTurn) {
+    this.cancelled = false;
+    this.setState('thinking');
+    await delay(THINKING_MS, this.controller.signal);
+    if (this.cancelled) return this.setState('listening');
+    await this.speak(typeof turn.agent === 'string' ? turn.agent : JSON.stringify(turn.agent));
+    // A stopped reply is abandoned along with the report it would have produced
+    if (turn.report !== undefined && !this.cancelled) {
+      const report = typeof turn.report === 'string' ? turn.report : JSON.stringify(turn.report);
+      await this.streamText(DIAGNOSTIC_REPORT_TOPIC, [report], AGENT_IDENTITY);
+    }
+    for (const call of turn.calls ?? []) {
+      if (this.cancelled) break;
+      await delay(RPC_DELAY_MS, this.controller.signal);
+      await this.callClient(call.method, call.payload);
+    }
+  }
+
+  /** Call a client RPC method as the agent would, and wait for its response. */
+  private callClient(method: string, payload: unknown = {}) {
+    return new Promise<void>((resolve, reject) => {
+      const { signal } = this.controller;
+      const id = crypto.randomUUID();
+      const finish = () => {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+        this.pendingCalls.delete(id);
+      };
+      const onAbort = () => {
+        finish();
+        reject(new MockAgentAbortedError());
+      };
+      const timeoutId = setTimeout(() => {
+        finish();
+        console.error(`Mock agent failed to call ${method}:`, RpcError.builtIn('RESPONSE_TIMEOUT'));
+        resolve();
+      }, RPC_RESPONSE_TIMEOUT_MS);
+
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.pendingCalls.set(id, (response) => {
+        finish();
+        if (response.value.case === 'error') {
+          console.error(
+            `Mock agent failed to call ${method}:`,
+            RpcError.fromProto(response.value.value)
+          );
+        }
+        resolve();
+      });
+      this.deliver({
+        case: 'rpcRequest',
+        value: new RpcRequest({
+          id,
+          method,
+          payload: JSON.stringify(payload),
+          responseTimeoutMs: RPC_RESPONSE_TIMEOUT_MS,
+          version: 1,
+        }),
+      });
+    });
+  }
+
+  /** Speak as the agent, with the transcription streamed word by word alongside the voice. */
+  private async speak(text: string) {
+    const payload = parseAgentPayload(text);
+    // Structured payloads are only complete once they have arrived in full
+    const chunks = payload.ok && payload.format === 'plain' ? words(text) : [text];
+    const durationMs = words(payloadChatText(payload)).length * WORD_INTERVAL_MS;
+    const voiceTrack = this.room.remoteParticipants
+      .get(AGENT_IDENTITY)
+      ?.getTrackPublication(Track.Source.Microphone);
+
+    this.setState('speaking');
+    this.voice?.speak(durationMs);
+    await this.streamTranscription(chunks, AGENT_IDENTITY, voiceTrack?.trackSid ?? '', {
+      intervalMs: durationMs / chunks.length,
+      interruptible: true,
+    });
+    this.setState('listening');
+  }
+
+  /** The technician's side of a turn, transcribed as if they had said it into the microphone. */
+  private async speakForTechnician(text: string) {
+    const microphone = this.room.localParticipant.getTrackPublication(Track.Source.Microphone);
+    await this.streamTranscription(
+      words(text),
+      this.room.localParticipant.identity,
+      microphone?.trackSid ?? '',
+      { intervalMs: WORD_INTERVAL_MS }
+    );
+  }
+
+  private streamTranscription(
+    chunks: string[],
+    from: string,
+    trackSid: string,
+    { intervalMs, interruptible }: { intervalMs: number; interruptible?: boolean }
+  ) {
+    return this.streamText('lk.transcription', chunks, from, {
+      intervalMs,
+      interruptible,
+      attributes: {
+        'lk.transcribed_track_id': trackSid,
+        'lk.segment_id': `SG_${crypto.randomUUID()}`,
+        'lk.transcription_final': 'false',
+      },
+      trailerAttributes: { 'lk.transcription_final': 'true' },
+    });
+  }
+
+  /** Send a text stream to the room as if the server had relayed it from `from`. */
+  private async streamText(
+    topic: string,
+    chunks: string[],
+    from: string,
+    {
+      intervalMs = 0,
+      interruptible = false,
+      attributes = {},
+      trailerAttributes = {},
+    }: {
+      intervalMs?: number;
+      /** Stop early, but still close the stream, once the reply has been cancelled. */
+      interruptible?: boolean;
+      attributes?: Record<string, string>;
+      trailerAttributes?: Record<string, string>;
+    } = {}
+  ) {
+    const streamId = crypto.randomUUID();
+
+    this.deliver(
+      {
+        case: 'streamHeader',
+        value: new DataStream_Header({
+          streamId,
+          timestamp: BigInt(Date.now()),
+          topic,
+          mimeType: 'text/plain',
+          attributes,
+          contentHeader: {
+            case: 'textHeader',
+            value: new DataStream_TextHeader({ operationType: DataStream_OperationType.CREATE }),
+          },
+        }),
+      },
+      from
+    );
+    const encoder = new TextEncoder();
+    for (const [index, chunk] of chunks.entries()) {
+      if (interruptible && this.cancelled) break;
+      this.deliver(
+        {
+          case: 'streamChunk',
+          value: new DataStream_Chunk({
+            streamId,
+            chunkIndex: BigInt(index),
+            content: encoder.encode(chunk),
+          }),
+        },
+        from
+      );
+      if (intervalMs) await delay(intervalMs, this.controller.signal);
+    }
+    this.deliver(
+      {
+        case: 'streamTrailer',
+        value: new DataStream_Trailer({ streamId, attributes: trailerAttributes }),
+      },
+      from
+    );
+  }
+
+  /** Hand a data packet to the room, as the server does when relaying one from `from`. */
+  private deliver(
+    value: DataPacket['value'],
+    from = AGENT_IDENTITY,
+    destinationIdentities: string[] = []
+  ) {
+    this.room.engine.emit(
+      'dataPacketReceived',
+      new DataPacket({
+        participantIdentity: from,
+        destinationIdentities,
+        kind: DataPacket_Kind.RELIABLE,
+        value,
+      })
+    );
+  }
+}
+
+function words(text: string) {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+/**
+ * A `Room` that never contacts a server. It connects through the SDK's participant simulation,
+ * stands in for the server by emitting the events its engine would, and hands everything the
+ * local participant sends to a `MockAgent` playing the configured script.
+ */
+export class MockRoom extends Room {
+  private agent: MockAgent | null = null;
+
+  constructor(private script: MockScript) {
+    super();
+
+    this.connect = async () => {
+      if (this.state !== ConnectionState.Disconnected) return;
+      // Emitted before `Connected`, so that its listeners see this session's room and technician
+      this.once(RoomEvent.SignalConnected, () => {
+        this.engine.emit(
+          'roomUpdate',
+          new RoomInfo({
+            sid: `RM_mock_${crypto.randomUUID().slice(0, 8)}`,
+            name: `mock-${crypto.randomUUID().slice(0, 8)}`,
+          })
+        );
+        this.localParticipant.updateInfo(
+          new ParticipantInfo({
+            sid: 'PA_mock_technician',
+            identity: TECHNICIAN_IDENTITY,
+            name: TECHNICIAN_NAME,
+            state: ParticipantInfo_State.ACTIVE,
+            version: 1,
+          })
+        );
+      });
+      await this.simulateParticipants({
+        publish: { audio: false, video: false },
+        participants: { count: 1 },
+      });
+
+      this.agent = new MockAgent(this, this.script);
+      this.agent.start();
+    };
+
+    // Closing the engine would leave none to connect with next time, so only its loss is simulated
+    this.disconnect = async () => {
+      if (this.state === ConnectionState.Disconnected) return;
+      this.engine.emit('disconnected', DisconnectReason.CLIENT_INITIATED);
+    };
+
+    this.on(RoomEvent.Disconnected, () => {
+      this.agent?.stop();
+      this.agent = null;
+    });
+
+    // Everything the local participant sends goes through here; only the agent is there to hear it
+    this.engine.sendDataPacket = async (packet) => {
+      const to = packet.destinationIdentities;
+      if (to.length > 0 && !to.includes(AGENT_IDENTITY)) return;
+      this.agent?.receive(packet);
+    };
+
+    this.mockLocalParticipant(this.localParticipant);
+  }
+
+  private mockLocalParticipant(local: LocalParticipant) {
+    local.publishTrack = async (track, options) => {
+      if (!isLocalTrack(track)) throw new Error('The mock room only publishes LocalTracks');
+      const source = options?.source ?? track.source;
+      const info = new TrackInfo({
+        sid: `TR_mock_${crypto.randomUUID().slice(0, 8)}`,
+        name: options?.name ?? source,
+        type: Track.kindToProto(track.kind),
+        source: Track.sourceToProto(source),
+        muted: track.isMuted,
+      });
+      track.source = source;
+      track.sid = info.sid;
+      const publication = new LocalTrackPublication(track.kind, info, track);
+      publication.on(TrackEvent.Muted, () => local.emit(ParticipantEvent.TrackMuted, publication));
+      publication.on(TrackEvent.Unmuted, () =>
+        local.emit(ParticipantEvent.TrackUnmuted, publication)
+      );
+      local.trackPublications.set(info.sid, publication);
+      const byKind =
+        track.kind === Track.Kind.Video
+          ? local.videoTrackPublications
+          : local.audioTrackPublications;
+      byKind.set(info.sid, publication);
+      local.emit(ParticipantEvent.LocalTrackPublished, publication);
+      return publication;
+    };
+
+    // Both wait for the server to confirm the update, and the agent does not read them
+    local.setMetadata = async () => {};
+    local.setAttributes = async () => {};
+  }
+}
+
+/** A `MockRoom` playing the script `NEXT_PUBLIC_MOCK_AGENT` names, or the default one. */
+export function createMockRoom() {
+  return new MockRoom(MOCK_SCRIPTS[MOCK_AGENT ?? ''] ?? MOCK_SCRIPTS[DEFAULT_MOCK_SCRIPT]);
+}
+
+/** Stand-in for `/api/connection-details`, which needs LiveKit credentials. */
+export function mockConnectionDetails(): ConnectionDetails {
+  return {
+    serverUrl: 'mock://',
+    roomName: 'mock',
+    participantName: TECHNICIAN_NAME,
+    participantToken: 'mock',
+    // Far enough out that the token is never refreshed
+    participantTokenExpiresAt: Date.now() + 24 * 60 * 60 * 1000,
+  };
+}
@@ -0,0 +1,39 @@
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the caller may retry, when not allowed. */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Fixed-window rate limiter kept in process memory. Limits apply per server instance, which is
+ * enough to stop a single client from draining tokens; use a shared store if the app is scaled out.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, RateWindow>();
+
+  return function check(key: string): RateLimitResult {
+    const now = Date.now();
+
+    // Drop expired windows as we go so the map does not grow without bound
+    if (windows.size > 10_000) {
+      for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+    }
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+    return {
+      allowed: window.count <= limit,
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  };
+}
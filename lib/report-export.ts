@@ -0,0 +1,301 @@
+import type { Language } from '@/hooks/useConnectionDetails';
+import { LOCALES, getMessages } from './i18n';
+import type { DiagnosticReport, VehicleProfile } from './types';
+import { safeUrl } from './utils';
+import { vehicleSummary } from './vehicle-profile';
+
+export interface ReportExportMetadata {
+  /** Version of the report within the session. */
+  version: number;
+  /** Epoch milliseconds at which the report was received. */
+  receivedAt: number;
+  roomName?: string;
+  /** Session language, which exports are also labelled in. */
+  language?: Language;
+  vehicle?: VehicleProfile;
+}
+
+// jsPDF's built-in fonts only cover Windows-1252, and it cannot shape Indic scripts either
+const PDF_UNSUPPORTED_TEXT =
+  /[^\t\n\r\u0020-\u00ff\u2013\u2014\u2018\u2019\u201c\u201d\u2022\u2026\u20ac]/;
+
+/** Label/value pairs describing the session, shared by every export format. */
+export function reportMetadataEntries(metadata: ReportExportMetadata): Array<[string, string]> {
+  const t = getMessages(metadata.language);
+  const locale = LOCALES[metadata.language ?? 'en'];
+  const entries: Array<[string, string]> = [
+    [t.report.version, `v${metadata.version}`],
+    [t.report.received, new Date(metadata.receivedAt).toLocaleString(locale)],
+  ];
+  if (metadata.roomName) entries.push([t.report.session, metadata.roomName]);
+  if (metadata.language) entries.push([t.report.language, metadata.language]);
+
+  const { vin, ...vehicle } = metadata.vehicle ?? {};
+  const summary = vehicleSummary(vehicle, {
+    locale,
+    fuelLabel: (fuelType) => t.vehicle.fuelTypes[fuelType],
+  });
+  if (summary) entries.push([t.vehicle.title, summary]);
+  if (vin) entries.push([t.vehicle.vin, vin]);
+  return entries;
+}
+
+/**
+ * Whether `reportToPdf` can render the report. Reports in other scripts, such as Kannada,
+ * Devanagari or Tamil, are printed instead, where the browser's fonts can save them as a PDF.
+ */
+export function canExportPdf(report: DiagnosticReport, metadata: ReportExportMetadata) {
+  return !PDF_UNSUPPORTED_TEXT.test(reportToMarkdown(report, metadata));
+}
+
+export function reportFileBaseName(metadata: ReportExportMetadata) {
+  const session = (metadata.roomName ?? 'session').replace(/[^\w-]+/g, '_');
+  return `diagnostic-report-${session}-v${metadata.version}`;
+}
+
+/** Strip markdown syntax for formats that can only hold plain text, such as the PDF. */
+export function markdownToPlainText(markdown: string) {
+  return markdown
+    .replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '[$1]')
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1 ($2)')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^(\s*)[-*•]\s+/gm, '$1• ')
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+}
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+const formatSpecification = ({ value, unit }: { value: string; unit?: string }) =>
+  unit ? `${value} ${unit}` : value;
+
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+function markdownTable(columns: string[], rows: string[][]) {
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(tableCell).join(' | ')} |`),
+  ];
+}
+
+/** Markdown for the structured sections of a report, in the order the report panel shows them. */
+export function reportSectionsToMarkdown(report: DiagnosticReport, language?: Language) {
+  const { report: t } = getMessages(language);
+  const lines: string[] = [];
+  const section = (title: string, body: string[]) => {
+    if (body.length > 0) lines.push(`## ${title}`, '', ...body, '');
+  };
+  const {
+    root_causes = [],
+    repair_steps = [],
+    tools = [],
+    parts = [],
+    specifications = [],
+    safety_notes = [],
+  } = report;
+
+  section(
+    t.safetyNotes,
+    safety_notes.map((note) => `- ${note}`)
+  );
+  section(
+    t.rootCauses,
+    root_causes.map(
+      ({ description, confidence }, index) =>
+        `${index + 1}. ${description}` +
+        (confidence === undefined ? '' : ` _(${t.confidence} ${formatConfidence(confidence)})_`)
+    )
+  );
+  section(
+    t.repairSteps,
+    repair_steps.map(
+      ({ description, details }, index) =>
+        `${index + 1}. ${description}${details ? ` — ${details}` : ''}`
+    )
+  );
+  section(
+    t.tools,
+    tools.map((tool) => `- ${tool}`)
+  );
+  if (parts.length > 0) {
+    section(
+      t.parts,
+      markdownTable(
+        [t.partName, t.partNumber, t.quantity],
+        parts.map((part) => [part.name, part.part_number ?? '—', String(part.quantity ?? 1)])
+      )
+    );
+  }
+  if (specifications.length > 0) {
+    section(
+      t.specifications,
+      markdownTable(
+        [t.specName, t.specValue],
+        specifications.map((spec) => [spec.name, formatSpecification(spec)])
+      )
+    );
+  }
+
+  return lines.join('\n');
+}
+
+export function reportToMarkdown(report: DiagnosticReport, metadata: ReportExportMetadata) {
+  const { report: t } = getMessages(metadata.language);
+  const lines = [`# ${t.title}`, ''];
+
+  for (const [label, value] of reportMetadataEntries(metadata)) {
+    lines.push(`- **${label}:** ${value}`);
+  }
+  lines.push('');
+  if (report.content.trim()) {
+    lines.push(`## ${t.analysis}`, '', report.content.trim(), '');
+  }
+  const sections = reportSectionsToMarkdown(report, metadata.language);
+  if (sections) lines.push(sections);
+
+  if (report.web_sources.length > 0) {
+    lines.push(`## ${t.webSourcesTitle}`, '');
+    for (const source of report.web_sources) {
+      lines.push(
+        `- [${source.title}](${source.url})${source.snippet ? ` — ${source.snippet}` : ''}`
+      );
+    }
+    lines.push('');
+  }
+
+  if (report.youtube_videos.length > 0) {
+    lines.push(`## ${t.videosTitle}`, '');
+    for (const video of report.youtube_videos) {
+      lines.push(`- [${video.title}](${video.url})`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export async function reportToPdf(
+  report: DiagnosticReport,
+  metadata: ReportExportMetadata
+): Promise<Blob> {
+  // Loaded on demand so the PDF library stays out of the main bundle
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const t = getMessages(metadata.language);
+
+  const margin = 48;
+  const pageWidth = doc.internal.pageSize.getWidth() - margin * 2;
+  const pageBottom = doc.internal.pageSize.getHeight() - margin;
+  let y = margin;
+
+  const write = (
+    text: string,
+    { size = 10, bold = false, link }: { size?: number; bold?: boolean; link?: string } = {}
+  ) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const lineHeight = size * 1.4;
+    for (const line of doc.splitTextToSize(text, pageWidth) as string[]) {
+      if (y + lineHeight > pageBottom) {
+        doc.addPage();
+        y = margin;
+      }
+      if (link) {
+        doc.textWithLink(line, margin, y, { url: link });
+      } else {
+        doc.text(line, margin, y);
+      }
+      y += lineHeight;
+    }
+  };
+  const gap = (height = 8) => {
+    y += height;
+  };
+
+  write(t.report.title, { size: 18, bold: true });
+  gap();
+  for (const [label, value] of reportMetadataEntries(metadata)) {
+    write(`${label}: ${value}`, { size: 9 });
+  }
+
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    gap(12);
+    write(title, { size: 14, bold: true });
+    gap(4);
+    for (const item of items) write(item);
+  };
+
+  if (report.content.trim()) {
+    gap(12);
+    write(t.report.analysis, { size: 14, bold: true });
+    gap(4);
+    for (const paragraph of markdownToPlainText(report.content).split('\n')) {
+      if (paragraph.trim()) write(paragraph);
+      else gap(6);
+    }
+  }
+
+  section(
+    t.report.safetyNotes,
+    (report.safety_notes ?? []).map((note) => `• ${note}`)
+  );
+  section(
+    t.report.rootCauses,
+    (report.root_causes ?? []).map(
+      ({ description, confidence }, index) =>
+        `${index + 1}. ${description}` +
+        (confidence === undefined
+          ? ''
+          : ` (${t.report.confidence} ${formatConfidence(confidence)})`)
+    )
+  );
+  section(
+    t.report.repairSteps,
+    (report.repair_steps ?? []).map(
+      ({ description, details }, index) =>
+        `${index + 1}. ${description}${details ? ` — ${details}` : ''}`
+    )
+  );
+  section(
+    t.report.tools,
+    (report.tools ?? []).map((tool) => `• ${tool}`)
+  );
+  section(
+    t.report.parts,
+    (report.parts ?? []).map(
+      (part) =>
+        `• ${part.name}${part.part_number ? ` (${part.part_number})` : ''} × ${part.quantity ?? 1}`
+    )
+  );
+  section(
+    t.report.specifications,
+    (report.specifications ?? []).map((spec) => `• ${spec.name}: ${formatSpecification(spec)}`)
+  );
+
+  if (report.web_sources.length > 0) {
+    gap(12);
+    write(t.report.webSourcesTitle, { size: 14, bold: true });
+    gap(4);
+    for (const source of report.web_sources) {
+      write(source.title, { bold: true });
+      write(source.url, { size: 8, link: safeUrl(source.url) });
+      if (source.snippet) write(source.snippet, { size: 9 });
+      gap(4);
+    }
+  }
+
+  if (report.youtube_videos.length > 0) {
+    gap(12);
+    write(t.report.videosTitle, { size: 14, bold: true });
+    gap(4);
+    for (const video of report.youtube_videos) {
+      write(video.title, { bold: true });
+      write(video.url, { size: 8, link: safeUrl(video.url) });
+      gap(4);
+    }
+  }
+
+  return doc.output('blob');
+}
@@ -0,0 +1,77 @@
+/**
+ * Signed session cookie identifying a browser to the API routes. It carries no user data, only a
+ * random subject used for per-session rate limiting, and is signed with HMAC-SHA256 via Web Crypto
+ * so it can be issued from middleware and verified in route handlers alike.
+ */
+
+export const SESSION_COOKIE = 'allion_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 24;
+
+export interface SessionClaims {
+  /** Random session identifier. */
+  sub: string;
+  /** Expiry in epoch seconds. */
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function importKey(secret: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+export async function signSession(secret: string): Promise<string> {
+  const claims: SessionClaims = {
+    sub: crypto.randomUUID(),
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+  };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await importKey(secret),
+    encoder.encode(payload)
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/** Returns the claims of a validly signed, unexpired session cookie, or null. */
+export async function verifySession(
+  value: string | undefined,
+  secret: string
+): Promise<SessionClaims | null> {
+  const [payload, signature, ...rest] = value?.split('.') ?? [];
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+}
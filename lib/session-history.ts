@@ -0,0 +1,118 @@
+import type { ChatEntryMessage, SessionRecord, TranscriptEntry } from './types';
+import { vehicleSummary } from './vehicle-profile';
+
+const DB_NAME = 'session-history';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+export class SessionHistoryUnavailableError extends Error {
+  constructor() {
+    super('IndexedDB is not available in this browser');
+    this.name = 'SessionHistoryUnavailableError';
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new SessionHistoryUnavailableError());
+  }
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('startedAt', 'startedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Let the next call try again, e.g. after the user closes a tab blocking an upgrade
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+/** Insert or replace a session; it is saved again as it progresses. */
+export async function saveSession(session: SessionRecord) {
+  await withStore('readwrite', (store) => store.put(session));
+}
+
+/** Every saved session, newest first. */
+export async function listSessions() {
+  const sessions = await withStore('readonly', (store) => store.index('startedAt').getAll());
+  return (sessions as SessionRecord[]).reverse();
+}
+
+export async function getSession(id: string) {
+  return ((await withStore('readonly', (store) => store.get(id))) as SessionRecord) ?? null;
+}
+
+export async function deleteSession(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/** `YYYY-MM-DD` in local time, the format of `<input type="date">`. */
+export function localDate(epochMs: number) {
+  const date = new Date(epochMs);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export interface SessionFilter {
+  /** Matched against the vehicle's make, model, year, engine and VIN, and the room name. */
+  query?: string;
+  /** Local calendar date the session started on, as `YYYY-MM-DD`. */
+  date?: string;
+}
+
+export function filterSessions(sessions: SessionRecord[], { query, date }: SessionFilter) {
+  const terms = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  return sessions.filter((session) => {
+    if (date && localDate(session.startedAt) !== date) return false;
+    const haystack = [vehicleSummary(session.vehicle), session.vehicle.vin, session.roomName]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+/** Whole seconds the session lasted, from joining the room to its last saved activity. */
+export function sessionDurationSeconds(session: SessionRecord) {
+  return Math.max(0, Math.round((session.endedAt - session.startedAt) / 1000));
+}
+
+/**
+ * A saved transcript entry in the shape `ChatEntry` renders. The participants are long gone, so
+ * `from` only carries who spoke and which side of the conversation they were on.
+ */
+export function transcriptEntryToChatMessage(entry: TranscriptEntry): ChatEntryMessage {
+  return {
+    id: entry.id,
+    timestamp: entry.receivedAt,
+    message: entry.text,
+    from: {
+      identity: entry.participantIdentity ?? '',
+      name: entry.participantName,
+      isLocal: entry.role === 'user',
+      isAgent: entry.role === 'assistant',
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/** Region of an image as fractions of its width and height. */
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Large enough to read a part label, small enough to send quickly over a byte stream
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.85;
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the photo'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    )
+  );
+}
+
+/** Grab the current frame of a camera track at its full resolution. */
+export async function captureFrame(track: MediaStreamTrack): Promise<Blob> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([track]);
+  try {
+    await video.play();
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    return await canvasToJpeg(canvas);
+  } finally {
+    video.pause();
+    video.srcObject = null;
+  }
+}
+
+/** Crop a photo to `crop`, or keep all of it, and scale it down to at most `MAX_DIMENSION`. */
+export async function cropImage(image: Blob, crop: CropRect | null): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  const { x, y, width, height } = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+  const sx = x * bitmap.width;
+  const sy = y * bitmap.height;
+  const sw = width * bitmap.width;
+  const sh = height * bitmap.height;
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(sw, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvasToJpeg(canvas);
+}
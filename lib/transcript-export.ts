@@ -0,0 +1,182 @@
+import { parseAgentPayload, payloadChatText } from './agent-payload';
+import type { TranscriptEntry } from './types';
+import { downloadBlob } from './utils';
+
+export type TranscriptExportFormat = 'json' | 'markdown' | 'vtt' | 'srt';
+
+export const TRANSCRIPT_EXPORT_FORMATS: Record<
+  TranscriptExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown;charset=utf-8' },
+  vtt: { label: 'WebVTT', extension: 'vtt', mimeType: 'text/vtt;charset=utf-8' },
+  srt: { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip;charset=utf-8' },
+};
+
+export interface TranscriptExportMetadata {
+  roomName?: string;
+  language?: string;
+}
+
+// Chat messages have no spoken duration, so give their cues enough time to be read
+const MIN_CUE_DURATION_MS = 2000;
+
+function speakerLabel(entry: TranscriptEntry) {
+  return entry.role === 'assistant' ? 'Agent' : 'Technician';
+}
+
+function cueTimestamp(ms: number, separator: '.' | ',') {
+  const hours = Math.floor(ms / 3_600_000);
+  const minutes = Math.floor((ms % 3_600_000) / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  const millis = Math.floor(ms % 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+// Only the agent sends payloads; the technician's own messages are always plain text
+function agentPayload(entry: TranscriptEntry) {
+  return entry.role === 'assistant' ? parseAgentPayload(entry.text) : null;
+}
+
+function entryText(entry: TranscriptEntry) {
+  const payload = agentPayload(entry);
+  return payload ? payloadChatText(payload) : entry.text;
+}
+
+function captionCues(transcript: TranscriptEntry[]) {
+  return transcript
+    .map((entry) => ({
+      entry,
+      // A blank line would end the cue early, so keep multi-paragraph answers in one block
+      text: entryText(entry)
+        .trim()
+        .replace(/\n\s*\n/g, '\n'),
+    }))
+    .filter(({ text }) => text.length > 0)
+    .map(({ entry, text }) => ({
+      start: entry.receivedAtMediaTimestamp,
+      end: Math.max(
+        entry.lastReceivedAtMediaTimestamp,
+        entry.receivedAtMediaTimestamp + MIN_CUE_DURATION_MS
+      ),
+      speaker: speakerLabel(entry),
+      text,
+    }));
+}
+
+export function transcriptToJson(
+  transcript: TranscriptEntry[],
+  metadata: TranscriptExportMetadata
+) {
+  return JSON.stringify(
+    {
+      ...metadata,
+      exportedAt: new Date().toISOString(),
+      entries: transcript.map((entry) => {
+        const payload = agentPayload(entry);
+        return {
+          id: entry.id,
+          source: entry.source,
+          role: entry.role,
+          speaker: entry.participantName,
+          participantIdentity: entry.participantIdentity,
+          receivedAt: new Date(entry.receivedAt).toISOString(),
+          receivedAtMediaTimestamp: entry.receivedAtMediaTimestamp,
+          lastReceivedAtMediaTimestamp: entry.lastReceivedAtMediaTimestamp,
+          final: entry.final,
+          interrupted: entry.interrupted,
+          text: payload ? payloadChatText(payload) : entry.text,
+          // Structured agent payloads are kept verbatim alongside their parsed form
+          payload: payload?.ok && payload.format !== 'plain' ? payload : undefined,
+          payloadError: payload && !payload.ok ? payload.error : undefined,
+          raw: entry.text,
+        };
+      }),
+    },
+    null,
+    2
+  );
+}
+
+export function transcriptToMarkdown(
+  transcript: TranscriptEntry[],
+  metadata: TranscriptExportMetadata
+) {
+  const lines = ['# Session Transcript', ''];
+  if (metadata.roomName) lines.push(`- **Session:** ${metadata.roomName}`);
+  if (metadata.language) lines.push(`- **Language:** ${metadata.language}`);
+  lines.push(`- **Exported:** ${new Date().toLocaleString()}`, '');
+
+  for (const entry of transcript) {
+    const text = entryText(entry).trim();
+    if (!text) continue;
+    const time = new Date(entry.receivedAt).toLocaleTimeString();
+    const note = entry.interrupted ? `${time}, interrupted` : time;
+    lines.push(`**${speakerLabel(entry)}** _(${note})_`, '', text, '');
+  }
+
+  return lines.join('\n');
+}
+
+function escapeVtt(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function transcriptToWebVtt(transcript: TranscriptEntry[]) {
+  const cues = captionCues(transcript).map(
+    ({ start, end, speaker, text }) =>
+      `${cueTimestamp(start, '.')} --> ${cueTimestamp(end, '.')}\n<v ${speaker}>${escapeVtt(text)}`
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function transcriptToSrt(transcript: TranscriptEntry[]) {
+  return (
+    captionCues(transcript)
+      .map(
+        ({ start, end, speaker, text }, index) =>
+          `${index + 1}\n${cueTimestamp(start, ',')} --> ${cueTimestamp(end, ',')}\n${speaker}: ${text}`
+      )
+      .join('\n\n') + '\n'
+  );
+}
+
+export function exportTranscript(
+  format: TranscriptExportFormat,
+  transcript: TranscriptEntry[],
+  metadata: TranscriptExportMetadata
+) {
+  switch (format) {
+    case 'json':
+      return transcriptToJson(transcript, metadata);
+    case 'markdown':
+      return transcriptToMarkdown(transcript, metadata);
+    case 'vtt':
+      return transcriptToWebVtt(transcript);
+    case 'srt':
+      return transcriptToSrt(transcript);
+  }
+}
+
+export function transcriptFileName(
+  format: TranscriptExportFormat,
+  metadata: TranscriptExportMetadata
+) {
+  const session = (metadata.roomName ?? 'session').replace(/[^\w-]+/g, '_');
+  return `transcript-${session}.${TRANSCRIPT_EXPORT_FORMATS[format].extension}`;
+}
+
+export function downloadTranscript(
+  format: TranscriptExportFormat,
+  transcript: TranscriptEntry[],
+  metadata: TranscriptExportMetadata
+) {
+  downloadBlob(
+    new Blob([exportTranscript(format, transcript, metadata)], {
+      type: TRANSCRIPT_EXPORT_FORMATS[format].mimeType,
+    }),
+    transcriptFileName(format, metadata)
+  );
+}
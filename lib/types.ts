@@ -1,10 +1,72 @@
-import type { TranscriptionSegment } from 'livekit-client';
+import type { Participant, TranscriptionSegment } from 'livekit-client';
+import type { ReceivedChatMessage } from '@livekit/components-react';
+import type { Language, VoiceBase } from '@/hooks/useConnectionDetails';
 
+/**
+ * A transcription segment with its timing in the session. `firstReceivedTime` and
+ * `lastReceivedTime` are epoch milliseconds; `receivedAtMediaTimestamp` and
+ * `lastReceivedAtMediaTimestamp` are the same moments in milliseconds from the start of the
+ * session, which is what caption cues are aligned to.
+ */
 export interface CombinedTranscription extends TranscriptionSegment {
   role: 'assistant' | 'user';
+  /** Milliseconds from the start of the session at which the segment was first received. */
   receivedAtMediaTimestamp: number;
+  /** Milliseconds from the start of the session at which the segment was last updated. */
+  lastReceivedAtMediaTimestamp: number;
+  /** Epoch milliseconds at which the segment was first received. */
   receivedAt: number;
 }
+
+export interface TranscriptEntry extends CombinedTranscription {
+  source: 'transcription' | 'chat';
+  participantIdentity?: string;
+  participantName?: string;
+  /** The technician stopped the agent before it finished this turn. */
+  interrupted?: boolean;
+}
+
+/** A chat message as `ChatEntry` renders it. `from` only has to say who sent it. */
+export interface ChatEntryMessage extends Omit<ReceivedChatMessage, 'from'> {
+  from?: Pick<Participant, 'identity' | 'name' | 'isLocal' | 'isAgent'>;
+}
+
+export type FuelType = 'petrol' | 'diesel' | 'cng' | 'lpg' | 'hybrid' | 'ev';
+
+/** The vehicle being repaired, as entered by the technician. Every field is optional. */
+export interface VehicleProfile {
+  vin?: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  engine?: string;
+  /** Odometer reading in kilometres. */
+  mileage?: number;
+  fuelType?: FuelType;
+}
+
+export type ChatAttachmentStatus = 'sending' | 'receiving' | 'done' | 'cancelled' | 'failed';
+
+/** A file sent to or received from the agent over a byte stream. */
+export interface ChatAttachment {
+  /** Byte stream id. */
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Size in bytes as announced by the sender. */
+  size: number;
+  caption?: string;
+  /** Epoch milliseconds at which the transfer started. */
+  timestamp: number;
+  participantIdentity: string;
+  isLocal: boolean;
+  status: ChatAttachmentStatus;
+  /** Fraction of the file transferred so far, from 0 to 1. */
+  progress: number;
+  /** The complete file, once the transfer is done. */
+  file?: File;
+}
+
 export type ThemeMode = 'dark' | 'light' | 'system';
 
 export interface AppConfig {
@@ -16,6 +78,7 @@ export interface AppConfig {
   supportsVideoInput: boolean;
   supportsScreenShare: boolean;
   isPreConnectBufferEnabled: boolean;
+  isDiagnosticPollFallbackEnabled: boolean;
 
   logo: string;
   startButtonText: string;
@@ -35,21 +98,103 @@ export interface SandboxConfig {
 export interface WebSource {
   url: string;
   title: string;
+  snippet?: string;
 }
 
 export interface YouTubeVideo {
   url: string;
   title: string;
-  thumbnail: string;
-  video_id: string;
-}
-export interface StructuredMessage {
-  voice_output: string;
-  text_output: {
-    content: string;
-    web_sources?: WebSource[];
-    youtube_videos?: YouTubeVideo[];
-    has_external_sources?: boolean;
-  };
-  html_output: string;
+  thumbnail?: string;
+  video_id?: string;
+}
+
+export interface RootCause {
+  description: string;
+  /** Likelihood from 0 to 1, as estimated by the agent. */
+  confidence?: number;
+}
+
+export interface RepairStep {
+  description: string;
+  details?: string;
+}
+
+export interface ReplacementPart {
+  name: string;
+  part_number?: string;
+  quantity?: number;
+}
+
+/** A value to set or check during the repair, such as a bolt torque or fuel pressure. */
+export interface Specification {
+  name: string;
+  value: string;
+  unit?: string;
+}
+
+/**
+ * A diagnostic report. `content` is freeform markdown; the structured sections are optional
+ * and, when present, are rendered on their own instead of being guessed from the content.
+ */
+export interface DiagnosticReport {
+  content: string;
+  web_sources: WebSource[];
+  youtube_videos: YouTubeVideo[];
+  has_external_sources?: boolean;
+  /** Most likely cause first. */
+  root_causes?: RootCause[];
+  /** In the order they should be carried out. */
+  repair_steps?: RepairStep[];
+  tools?: string[];
+  parts?: ReplacementPart[];
+  specifications?: Specification[];
+  safety_notes?: string[];
+}
+
+/** Wire formats accepted from the agent. See `lib/agent-payload.ts` for their shapes. */
+export type AgentPayloadFormat =
+  | 'v1'
+  | 'legacy_diagnostic_report'
+  | 'legacy_text_output'
+  | 'legacy_content'
+  | 'legacy_voice_text'
+  | 'plain';
+
+export type AgentPayload =
+  | {
+      ok: true;
+      format: AgentPayloadFormat;
+      /** Voice-friendly text shown in the chat transcript, if the payload carries one. */
+      voice: string | null;
+      report: DiagnosticReport | null;
+    }
+  | {
+      ok: false;
+      /** Why the payload was rejected, including the offending field path. */
+      error: string;
+      raw: string;
+    };
+
+export interface DiagnosticReportVersion {
+  /** 1-based position of the report within the session. */
+  version: number;
+  /** Epoch milliseconds at which the report was received. */
+  receivedAt: number;
+  /** Raw payload as published by the agent. */
+  raw: string;
+}
+
+/** A session as kept in the browser's local history, saved while it runs and when it ends. */
+export interface SessionRecord {
+  id: string;
+  roomName?: string;
+  /** Epoch milliseconds at which the room connected. */
+  startedAt: number;
+  /** Epoch milliseconds of the last save; once the session is over, when it ended. */
+  endedAt: number;
+  language: Language;
+  voiceBase: VoiceBase;
+  vehicle: VehicleProfile;
+  transcript: TranscriptEntry[];
+  reportVersions: DiagnosticReportVersion[];
 }
@@ -1,10 +1,10 @@
 import { cache } from 'react';
 import { type ClassValue, clsx } from 'clsx';
-import { Room } from 'livekit-client';
+import { DisconnectReason, Room } from 'livekit-client';
 import { twMerge } from 'tailwind-merge';
 import type { ReceivedChatMessage, TextStreamData } from '@livekit/components-react';
 import { APP_CONFIG_DEFAULTS } from '@/app-config';
-import type { AppConfig, SandboxConfig, StructuredMessage, WebSource, YouTubeVideo } from './types';
+import type { AppConfig, SandboxConfig } from './types';
 
 export const CONFIG_ENDPOINT = process.env.NEXT_PUBLIC_APP_CONFIG_ENDPOINT;
 export const SANDBOX_ID = process.env.SANDBOX_ID;
@@ -33,74 +33,48 @@ export function transcriptionToChatMessage(
   };
 }
 
-export function createRichTextOutput(textOutput: {
-  content: string;
-  web_sources?: WebSource[];
-  youtube_videos?: YouTubeVideo[];
-}): string {
-  // Use a more robust method to handle markdown-like content and convert it to HTML.
-  // For now, we'll focus on replacing newlines and rendering the structured data.
-  let html = `<div class="prose prose-sm max-w-none">${textOutput.content.replace(/\n/g, '<br />')}</div>`;
-
-  if (textOutput.web_sources && textOutput.web_sources.length > 0) {
-    html += '<h3 class="mt-4 mb-2 text-base font-semibold">Sources</h3>';
-    html += '<ul class="list-disc list-inside space-y-1">';
-    textOutput.web_sources.forEach((source) => {
-      html += `<li><a href="${source.url}" target="_blank" rel="noopener noreferrer" class="text-blue-500 hover:underline">${source.title}</a></li>`;
-    });
-    html += '</ul>';
-  }
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
 
-  if (textOutput.youtube_videos && textOutput.youtube_videos.length > 0) {
-    html += '<h3 class="mt-4 mb-2 text-base font-semibold">Related Videos</h3>';
-    html += '<div class="grid grid-cols-2 gap-2 pt-2">';
-    textOutput.youtube_videos.forEach((video) => {
-      // Ensure thumbnail exists before creating the img tag
-      const thumbnailUrl =
-        video.thumbnail || `https://img.youtube.com/vi/${video.video_id}/mqdefault.jpg`;
-      html += `
-        <a href="${video.url}" target="_blank" rel="noopener noreferrer" class="block group">
-          <div class="aspect-video overflow-hidden rounded-lg border">
-            <img src="${thumbnailUrl}" alt="${video.title}" class="w-full h-full object-cover transition-transform group-hover:scale-105" />
-          </div>
-          <p class="text-xs mt-1 text-gray-600 dark:text-gray-400">${video.title}</p>
-        </a>
-      `;
-    });
-    html += '</div>';
-  }
+/**
+ * Return `url` if it is relative or uses an allowlisted scheme, otherwise `undefined`.
+ * Agent-supplied links and images must go through this before reaching the DOM.
+ */
+export function safeUrl(url: string | null | undefined): string | undefined {
+  const trimmed = url?.trim();
+  if (!trimmed) return undefined;
 
-  return html;
-}
+  // Relative URLs resolve against our own origin (but `//host` is protocol-relative)
+  if (/^[/?#]/.test(trimmed) && !trimmed.startsWith('//')) return trimmed;
 
-export function parseStructuredMessage(message: string): StructuredMessage {
   try {
-    // The message from the backend should be a JSON string.
-    const parsed = JSON.parse(message);
-
-    // Check if the parsed object has the expected structure.
-    if (
-      parsed.voice_output &&
-      parsed.diagnostic_report &&
-      typeof parsed.diagnostic_report.content === 'string'
-    ) {
-      return {
-        voice_output: parsed.voice_output,
-        text_output: parsed.diagnostic_report, // Map diagnostic_report to text_output for compatibility
-        html_output: createRichTextOutput(parsed.diagnostic_report),
-      };
-    }
+    return SAFE_URL_PROTOCOLS.includes(new URL(trimmed).protocol) ? trimmed : undefined;
   } catch {
-    // If it's not a valid JSON or doesn't match the structure, treat it as plain text.
-    console.warn('Message is not a valid structured message, treating as plain text:', message);
+    return undefined;
   }
+}
 
-  // Fallback for plain text messages or malformed JSON.
-  return {
-    voice_output: message,
-    text_output: { content: message },
-    html_output: `<div class="prose prose-sm max-w-none">${message.replace(/\n/g, '<br />')}</div>`,
-  };
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Whether a disconnect ended the session on purpose (the user left, or the room was closed), as
+ * opposed to the connection dropping, in which case the user can rejoin.
+ */
+export function isSessionEnd(reason?: DisconnectReason) {
+  return (
+    reason === DisconnectReason.CLIENT_INITIATED ||
+    reason === DisconnectReason.ROOM_DELETED ||
+    reason === DisconnectReason.PARTICIPANT_REMOVED
+  );
 }
 
 // https://react.dev/reference/react/cache#caveats
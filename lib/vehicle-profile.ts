@@ -0,0 +1,116 @@
+import type { FuelType, VehicleProfile } from './types';
+import { type VinError, decodeVin, normalizeVin, validateVin } from './vin';
+
+export const FUEL_TYPES: readonly FuelType[] = ['petrol', 'diesel', 'cng', 'lpg', 'hybrid', 'ev'];
+
+const VIN_ERRORS: Record<VinError, string> = {
+  length: 'must be 17 characters',
+  characters: 'must contain only letters and digits, excluding I, O and Q',
+  checkDigit: 'has a check digit that does not match the rest of the VIN',
+};
+const MAX_TEXT_LENGTH = 64;
+const MIN_YEAR = 1900;
+
+export class VehicleProfileError extends Error {
+  constructor(
+    readonly field: keyof VehicleProfile | null,
+    message: string
+  ) {
+    super(field ? `vehicle.${field} ${message}` : `vehicle ${message}`);
+    this.name = 'VehicleProfileError';
+  }
+}
+
+function text(value: unknown, field: keyof VehicleProfile) {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new VehicleProfileError(field, 'must be a string');
+  const trimmed = value.trim();
+  if (trimmed.length > MAX_TEXT_LENGTH) {
+    throw new VehicleProfileError(field, `must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  return trimmed || undefined;
+}
+
+function integer(value: unknown, field: keyof VehicleProfile, min: number, max: number) {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new VehicleProfileError(field, `must be a whole number between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validate an untrusted vehicle profile, such as the one sent to the token endpoint, dropping
+ * empty fields. Throws a `VehicleProfileError` naming the first invalid field.
+ */
+export function validateVehicleProfile(value: unknown): VehicleProfile {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new VehicleProfileError(null, 'must be an object');
+  }
+  const input = value as Record<string, unknown>;
+
+  const vin = text(input.vin, 'vin');
+  const vinError = vin === undefined ? null : validateVin(vin);
+  if (vinError) {
+    throw new VehicleProfileError('vin', VIN_ERRORS[vinError]);
+  }
+  if (input.fuelType !== undefined && !FUEL_TYPES.includes(input.fuelType as FuelType)) {
+    throw new VehicleProfileError('fuelType', `must be one of: ${FUEL_TYPES.join(', ')}`);
+  }
+
+  const profile: VehicleProfile = {
+    vin: vin && normalizeVin(vin),
+    make: text(input.make, 'make'),
+    model: text(input.model, 'model'),
+    year: integer(input.year, 'year', MIN_YEAR, new Date().getFullYear() + 1),
+    engine: text(input.engine, 'engine'),
+    mileage: integer(input.mileage, 'mileage', 0, 10_000_000),
+    fuelType: input.fuelType as FuelType | undefined,
+  };
+  return Object.fromEntries(
+    Object.entries(profile).filter(([, v]) => v !== undefined)
+  ) as VehicleProfile;
+}
+
+/** The field that makes a profile invalid, or null if it is valid. */
+export function invalidVehicleField(vehicle: VehicleProfile): keyof VehicleProfile | null {
+  try {
+    validateVehicleProfile(vehicle);
+    return null;
+  } catch (error) {
+    return error instanceof VehicleProfileError ? error.field : null;
+  }
+}
+
+/** Set the VIN and fill in what it decodes to, keeping any fields that are already entered. */
+export function withVin(vehicle: VehicleProfile, input: string): VehicleProfile {
+  const vin = normalizeVin(input);
+  const decoded = decodeVin(vin);
+  return {
+    ...vehicle,
+    vin: vin || undefined,
+    make: vehicle.make ?? decoded?.manufacturer,
+    year: vehicle.year ?? decoded?.modelYear,
+  };
+}
+
+export function isVehicleProfileEmpty(vehicle: VehicleProfile) {
+  return Object.values(vehicle).every((value) => value === undefined || value === '');
+}
+
+/** One-line description such as "2019 Maruti Suzuki Swift · 1.2L K12M · 45,000 km". */
+export function vehicleSummary(
+  vehicle: VehicleProfile,
+  { locale, fuelLabel }: { locale?: string; fuelLabel?: (fuelType: FuelType) => string } = {}
+) {
+  const name = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ');
+  return [
+    name,
+    vehicle.engine,
+    vehicle.fuelType && (fuelLabel?.(vehicle.fuelType) ?? vehicle.fuelType),
+    vehicle.mileage !== undefined && `${vehicle.mileage.toLocaleString(locale)} km`,
+    !name && vehicle.vin,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
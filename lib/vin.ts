@@ -0,0 +1,189 @@
+/**
+ * Offline VIN validation and decoding (ISO 3779 / ISO 3780). Decoding is best effort: the world
+ * manufacturer identifier table covers the makes most often seen in Indian workshops plus common
+ * imports, and everything else falls back to the region of manufacture.
+ */
+
+export interface VinDecodeResult {
+  vin: string;
+  /** World manufacturer identifier, the first three characters. */
+  wmi: string;
+  manufacturer?: string;
+  country?: string;
+  /** Most recent model year the tenth character can stand for that is not in the future. */
+  modelYear?: number;
+  /** Whether the ninth character matches the computed check digit. */
+  checkDigitValid: boolean;
+}
+
+export type VinError = 'length' | 'characters' | 'checkDigit';
+
+const VIN_LENGTH = 17;
+// Letters I, O and Q are never used, so they cannot be confused with 1 and 0
+const VIN_CHARACTERS = /^[A-HJ-NPR-Z0-9]+$/;
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1,
+  B: 2,
+  C: 3,
+  D: 4,
+  E: 5,
+  F: 6,
+  G: 7,
+  H: 8,
+  J: 1,
+  K: 2,
+  L: 3,
+  M: 4,
+  N: 5,
+  P: 7,
+  R: 9,
+  S: 2,
+  T: 3,
+  U: 4,
+  V: 5,
+  W: 6,
+  X: 7,
+  Y: 8,
+  Z: 9,
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Model year characters in order; the sequence repeats every 30 years from 1980
+const MODEL_YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const MANUFACTURERS: Record<string, string> = {
+  MA1: 'Mahindra',
+  MA3: 'Maruti Suzuki',
+  MA6: 'General Motors India',
+  MAJ: 'Ford India',
+  MAK: 'Honda Cars India',
+  MAL: 'Hyundai',
+  MAT: 'Tata Motors',
+  MBJ: 'Toyota Kirloskar',
+  MBL: 'Hero MotoCorp',
+  MD2: 'Bajaj Auto',
+  MD6: 'TVS Motor',
+  ME3: 'Royal Enfield',
+  ME4: 'Honda Motorcycle & Scooter India',
+  MEE: 'Renault India',
+  MEX: 'Volkswagen India',
+  '1FA': 'Ford',
+  '1G1': 'Chevrolet',
+  '2T1': 'Toyota',
+  '3VW': 'Volkswagen',
+  '5YJ': 'Tesla',
+  '1HG': 'Honda',
+  JHM: 'Honda',
+  JN1: 'Nissan',
+  JTD: 'Toyota',
+  KMH: 'Hyundai',
+  KNA: 'Kia',
+  SAJ: 'Jaguar',
+  SAL: 'Land Rover',
+  TMB: 'Škoda',
+  VF1: 'Renault',
+  VF3: 'Peugeot',
+  WAU: 'Audi',
+  WBA: 'BMW',
+  WDB: 'Mercedes-Benz',
+  WDD: 'Mercedes-Benz',
+  WVW: 'Volkswagen',
+  ZFA: 'Fiat',
+};
+
+// ISO 3780 regions as [first character, second character range, country]
+const COUNTRIES: Array<[string, string, string]> = [
+  ['A', 'A-H', 'South Africa'],
+  ['J', 'A-Z', 'Japan'],
+  ['K', 'L-R', 'South Korea'],
+  ['L', 'A-Z', 'China'],
+  ['M', 'A-E', 'India'],
+  ['M', 'F-K', 'Indonesia'],
+  ['M', 'L-R', 'Thailand'],
+  ['S', 'A-M', 'United Kingdom'],
+  ['T', 'J-P', 'Czech Republic'],
+  ['V', 'F-R', 'France'],
+  ['V', 'S-W', 'Spain'],
+  ['W', 'A-Z', 'Germany'],
+  ['Y', 'S-W', 'Sweden'],
+  ['Z', 'A-R', 'Italy'],
+  ['1', 'A-Z', 'United States'],
+  ['2', 'A-Z', 'Canada'],
+  ['3', 'A-W', 'Mexico'],
+  ['4', 'A-Z', 'United States'],
+  ['5', 'A-Z', 'United States'],
+  ['9', 'A-E', 'Brazil'],
+];
+
+export function normalizeVin(vin: string) {
+  return vin.replace(/[\s-]+/g, '').toUpperCase();
+}
+
+export function computeCheckDigit(vin: string) {
+  const sum = [...vin].reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : (TRANSLITERATION[char] ?? 0);
+    return total + value * WEIGHTS[index];
+  }, 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+}
+
+/**
+ * North American VINs must carry a check digit. Elsewhere, including India, the ninth character
+ * is often a manufacturer code, so a mismatch there is not an error.
+ */
+function requiresCheckDigit(vin: string) {
+  return /^[1-5]/.test(vin);
+}
+
+/** Returns why a VIN is invalid, or null if it is valid. */
+export function validateVin(input: string): VinError | null {
+  const vin = normalizeVin(input);
+  if (vin.length !== VIN_LENGTH) return 'length';
+  if (!VIN_CHARACTERS.test(vin)) return 'characters';
+  if (requiresCheckDigit(vin) && vin[8] !== computeCheckDigit(vin)) return 'checkDigit';
+  return null;
+}
+
+function countryOf(vin: string) {
+  const [first, second] = vin;
+  return COUNTRIES.find(([region, range]) => {
+    const [from, to] = range.split('-');
+    return region === first && second >= from && second <= to;
+  })?.[2];
+}
+
+function modelYearOf(vin: string) {
+  const index = MODEL_YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return undefined;
+  const latest = new Date().getFullYear() + 1;
+  let year = 1980 + index;
+  while (year + 30 <= latest) year += 30;
+  return year;
+}
+
+/** Decode a valid VIN, or return null if it does not pass `validateVin`. */
+export function decodeVin(input: string): VinDecodeResult | null {
+  const vin = normalizeVin(input);
+  if (validateVin(vin)) return null;
+
+  const wmi = vin.slice(0, 3);
+  return {
+    vin,
+    wmi,
+    manufacturer: MANUFACTURERS[wmi],
+    country: countryOf(vin),
+    modelYear: modelYearOf(vin),
+    checkDigitValid: vin[8] === computeCheckDigit(vin),
+  };
+}
+
+/** VINs mentioned in free text, such as a chat message, in the order they appear. */
+export function findVins(text: string) {
+  const candidates = text.toUpperCase().match(/\b[A-HJ-NPR-Z0-9]{17}\b/g) ?? [];
+  // Require both letters and digits so long words and numbers are not mistaken for VINs
+  return candidates.filter(
+    (candidate) => /\d/.test(candidate) && /[A-Z]/.test(candidate) && !validateVin(candidate)
+  );
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from 'next/server';
+import {
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+  signSession,
+  verifySession,
+} from '@/lib/session-cookie';
+
+const SESSION_SECRET = process.env.SESSION_SECRET;
+
+/**
+ * Issues the signed session cookie that /api/connection-details requires from browsers. Anyone
+ * can get one, so the route limits how many new sessions each IP may use.
+ */
+export async function middleware(req: NextRequest) {
+  const response = NextResponse.next();
+  if (!SESSION_SECRET) return response;
+
+  if (await verifySession(req.cookies.get(SESSION_COOKIE)?.value, SESSION_SECRET)) {
+    return response;
+  }
+
+  response.cookies.set(SESSION_COOKIE, await signSession(SESSION_SECRET), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+  return response;
+}
+
+export const config = {
+  // Pages only; API routes verify the cookie rather than mint one
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+};